@@ -1,344 +1,175 @@
 import 'react-native-get-random-values';
-import * as Linking from 'expo-linking';
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useState } from 'react';
 import {
   ActivityIndicator,
-  Platform,
   Pressable,
   ScrollView,
   StyleSheet,
   TextInput,
   View,
 } from 'react-native';
-import bs58 from 'bs58';
-import nacl from 'tweetnacl';
-import { AnchorProvider, EventParser, Program } from '@coral-xyz/anchor';
-import type { Idl } from '@coral-xyz/anchor';
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
-import { Buffer } from 'buffer';
+import { PublicKey } from '@solana/web3.js';
+import type { Transaction } from '@solana/web3.js';
 
+import { ActionQueueList } from '@/components/action-queue';
+import {
+  useActiveWallet,
+  useBlockDeliveryProgram,
+  useConnection,
+} from '@/components/block-delivery-provider';
+import { DeeplinkOutcomeNotice } from '@/components/deeplink-outcome';
+import { OwnershipProof } from '@/components/ownership-proof';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { RpcEndpointStatus } from '@/components/rpc-endpoint-status';
+import { SimulationReportView } from '@/components/simulation-report';
+import { WalletReconnect } from '@/components/wallet-reconnect';
 import ParallaxScrollView from '@/components/parallax-scroll-view';
 import { Colors } from '@/constants/theme';
+import { useActiveCluster } from '@/hooks/use-active-cluster';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import idlJson from '@/assets/idl/block_delivery.json';
-import {
-  getSolflareState,
-  handleSolflareCallbackUrl,
-  subscribeSolflareState,
-} from '@/lib/solflare-callback';
-import {
-  getPhantomState,
-  handlePhantomCallbackUrl,
-  subscribePhantomState,
-} from '@/lib/phantom-callback';
+import { enqueueAction, isRpcUnreachableError } from '@/lib/action-queue';
+import type { QueuedActionKind } from '@/lib/action-queue';
+import { applyComputeBudget, describeComputeBudget } from '@/lib/compute-budget';
+import type { ComputeBudget } from '@/lib/compute-budget';
 import {
-  getActiveWallet,
-  getLocalKeypair,
-  getPhantomBoxKeypair,
-  getSolflareBoxKeypair,
-  subscribeActiveWallet,
-  subscribeLocalKeypair,
-  subscribePhantomBoxKeypair,
-  subscribeSolflareBoxKeypair,
-} from '@/lib/wallet-store';
-
-const DAPP_URL = process.env.EXPO_PUBLIC_DAPP_URL ?? 'https://example.com';
-const CLUSTER = process.env.EXPO_PUBLIC_SOLANA_CHAIN ?? 'localnet';
-const SOLANA_RPC_URL = process.env.EXPO_PUBLIC_SOLANA_RPC_URL ?? 'http://127.0.0.1:8899';
-const REDIRECT_LINK = Linking.createURL('solflare-connect', { scheme: 'blockdeliveryapp' });
-const PHANTOM_REDIRECT_LINK = Linking.createURL('phantom-connect', { scheme: 'blockdeliveryapp' });
-const IDL = idlJson as Idl;
-const WALLET_SOLFLARE = 'solflare' as const;
-const WALLET_PHANTOM = 'phantom' as const;
+  buildAcceptOrderTransaction,
+  buildCompleteOrderTransaction,
+} from '@/lib/order-transactions';
+import { describeEventStream } from '@/lib/program-events';
+import { assertSimulationPasses, simulateTransaction } from '@/lib/simulation';
+import type { SimulationReport } from '@/lib/simulation';
+import { BatchSubmissionError, describeConfirmation } from '@/lib/transaction-confirmation';
+import type { ConfirmationResult } from '@/lib/transaction-confirmation';
+import { signAndSendAll } from '@/lib/wallet-adapter';
+import { describeTransactionFailure } from '@/lib/wallet-errors';
+
 const WALLET_LOCAL = 'local' as const;
 
+type OrderSimulation = {
+  address: string;
+  report: SimulationReport;
+};
+
+type OpenOrder = {
+  address: string;
+  orderId: string;
+  amount: string;
+  customer: string;
+};
+
+const shorten = (value: string) => `${value.slice(0, 4)}...${value.slice(-4)}`;
+
 export default function CourierScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const [solflareState, setSolflareState] = useState(getSolflareState());
-  const [phantomState, setPhantomState] = useState(getPhantomState());
-  const [activeWallet, setActiveWalletState] = useState(getActiveWallet());
-  const [localKeypair, setLocalKeypairState] = useState(getLocalKeypair());
-  const solflareBoxKeypairRef = useRef<nacl.BoxKeyPair | null>(getSolflareBoxKeypair());
-  const phantomBoxKeypairRef = useRef<nacl.BoxKeyPair | null>(getPhantomBoxKeypair());
-  const [webWallet, setWebWallet] = useState<any>(null);
-  const [phantomWebWallet, setPhantomWebWallet] = useState<any>(null);
+  const { activeWallet, adapter, publicKey: activeWalletPublicKey } = useActiveWallet();
   const [orderAddress, setOrderAddress] = useState('');
-  const [events, setEvents] = useState<any[]>([]);
   const [courierError, setCourierError] = useState<string | null>(null);
   const [courierTx, setCourierTx] = useState<string | null>(null);
+  const [computeBudget, setComputeBudget] = useState<ComputeBudget | null>(null);
+  const [simulation, setSimulation] = useState<SimulationReport | null>(null);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
+  const [batchResults, setBatchResults] = useState<ConfirmationResult[]>([]);
+  const [batchSimulations, setBatchSimulations] = useState<OrderSimulation[]>([]);
+  const [isLoadingOrders, setIsLoadingOrders] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [needsReconnect, setNeedsReconnect] = useState(false);
 
-  const connection = useMemo(() => new Connection(SOLANA_RPC_URL, 'confirmed'), []);
-
-  useEffect(() => subscribeActiveWallet(setActiveWalletState), []);
-  useEffect(() => subscribeLocalKeypair(setLocalKeypairState), []);
-  useEffect(() => subscribeSolflareBoxKeypair((next) => (solflareBoxKeypairRef.current = next)), []);
-  useEffect(() => subscribePhantomBoxKeypair((next) => (phantomBoxKeypairRef.current = next)), []);
-
-  useEffect(() => {
-    setSolflareState(getSolflareState());
-    return subscribeSolflareState((next) => setSolflareState(next));
-  }, []);
-
-  useEffect(() => {
-    setPhantomState(getPhantomState());
-    return subscribePhantomState((next) => setPhantomState(next));
-  }, []);
-
-  useEffect(() => {
-    if (Platform.OS === 'web') {
-      return;
-    }
-
-    const subscription = Linking.addEventListener('url', ({ url }) => {
-      handleSolflareCallbackUrl(url);
-      handlePhantomCallbackUrl(url);
-    });
-
-    Linking.getInitialURL().then((url) => {
-      if (url) {
-        handleSolflareCallbackUrl(url);
-        handlePhantomCallbackUrl(url);
-      }
-    });
-
-    return () => subscription.remove();
-  }, []);
-
-  useEffect(() => {
-    if (Platform.OS !== 'web') {
-      return;
-    }
-
-    let active = true;
-
-    const setupWebWallet = async () => {
-      try {
-        const solflareModule = await import('@solflare-wallet/sdk');
-        if (!active) {
-          return;
-        }
-
-        const wallet = new solflareModule.default();
-        setWebWallet(wallet);
-      } catch (err) {
-        if (active) {
-          setSolflareState((prev) => ({ ...prev, error: 'Solflare SDK failed to load.' }));
-        }
-      }
-    };
-
-    setupWebWallet();
+  const cluster = useActiveCluster();
+  const connection = useConnection();
+  const { programId, program, events, eventStream } = useBlockDeliveryProgram();
 
-    return () => {
-      active = false;
-    };
-  }, []);
+  const simulateOrder = (tx: Transaction, payer: PublicKey, order: PublicKey) =>
+    simulateTransaction(connection, tx, payer, [
+      {
+        label: 'Order PDA',
+        address: order,
+        decode: (data) => program?.coder.accounts.decode('order', data),
+      },
+    ]);
 
-  useEffect(() => {
-    if (Platform.OS !== 'web') {
-      return;
-    }
+  const preflight = async (tx: Transaction, payer: PublicKey, order: PublicKey) => {
+    const report = await simulateOrder(tx, payer, order);
+    setSimulation(report);
+    assertSimulationPasses(report);
+  };
 
-    const phantom = (globalThis as any)?.solana;
-    if (phantom?.isPhantom) {
-      setPhantomWebWallet(phantom);
+  const reportWalletFailure = (label: string, err: unknown) => {
+    const failure = describeTransactionFailure(label, err);
+    setNeedsReconnect(failure.needsReconnect);
+    if (failure.signature) {
+      setCourierTx(failure.signature);
     }
-  }, []);
+    setCourierError(failure.message);
+  };
 
-  const programId = useMemo(() => {
-    const address = (IDL as any)?.metadata?.address ?? (IDL as any)?.address ?? null;
-    if (!address) {
-      return null;
-    }
-    try {
-      return new PublicKey(address);
-    } catch (err) {
-      return null;
-    }
-  }, []);
 
-  const activeWalletPublicKey = useMemo(() => {
-    if (activeWallet === WALLET_LOCAL) {
-      return localKeypair?.publicKey ?? null;
-    }
-    if (activeWallet === WALLET_PHANTOM) {
-      return phantomState.publicKey ? new PublicKey(phantomState.publicKey) : null;
+  const queueIfUnreachable = (
+    label: string,
+    err: unknown,
+    kind: QueuedActionKind,
+    orders: string[],
+  ) => {
+    if (!programId || !activeWalletPublicKey || !isRpcUnreachableError(err)) {
+      return false;
     }
-    return solflareState.publicKey ? new PublicKey(solflareState.publicKey) : null;
-  }, [activeWallet, localKeypair, phantomState.publicKey, solflareState.publicKey]);
-
-  const provider = useMemo(() => {
-    if (!programId) return null;
-    return new AnchorProvider(
-      connection,
-      {
-        publicKey: activeWalletPublicKey ?? programId,
-        signTransaction: async (tx: Transaction) => tx,
-        signAllTransactions: async (txs: Transaction[]) => txs,
-      } as any,
-      { commitment: 'confirmed' },
+    orders.forEach((order) =>
+      enqueueAction(kind, order, {
+        cluster: cluster.name,
+        programId: programId.toBase58(),
+        wallet: activeWalletPublicKey.toBase58(),
+      }),
     );
-  }, [connection, activeWalletPublicKey, programId]);
-
-  const program = useMemo(() => {
-    if (!provider || !programId) return null;
-    return new Program(IDL, provider);
-  }, [provider, programId]);
+    setCourierError(`RPC unreachable. ${label} queued; it will be sent when the RPC recovers.`);
+    return true;
+  };
 
-  useEffect(() => {
+  const acceptOrder = async () => {
     if (!program || !programId) {
+      setCourierError('Program not ready.');
       return;
     }
-    if (Platform.OS !== 'web') {
+    if (!orderAddress) {
+      setCourierError('Enter order PDA.');
       return;
     }
-
-    const parser = new EventParser(programId, program.coder);
-    const subId = connection.onLogs(
-      programId,
-      (logs) => {
-        if (!logs.logs) return;
-        for (const event of parser.parseLogs(logs.logs)) {
-          setEvents((prev) => [...prev, event]);
-        }
-      },
-      'confirmed',
-    );
-
-    return () => {
-      connection.removeOnLogsListener(subId).catch(() => {});
-    };
-  }, [connection, program, programId]);
-
-  const encryptPayload = (payload: object, encryptionPublicKey: string, keypair: nacl.BoxKeyPair) => {
-    const sharedSecret = nacl.box.before(bs58.decode(encryptionPublicKey), keypair.secretKey);
-    const nonce = nacl.randomBytes(nacl.box.nonceLength);
-    const encrypted = nacl.box.after(Buffer.from(JSON.stringify(payload)), nonce, sharedSecret);
-    return {
-      data: bs58.encode(encrypted),
-      nonce: bs58.encode(nonce),
-      dappPublicKey: bs58.encode(keypair.publicKey),
-    };
-  };
-
-  const confirmSignature = async (signature: string) => {
-    if (Platform.OS !== 'android') {
-      await connection.confirmTransaction(signature, 'confirmed');
+    if (!activeWalletPublicKey) {
+      setCourierError(
+        activeWallet === WALLET_LOCAL ? 'Local wallet not created.' : 'Wallet not connected.',
+      );
       return;
     }
-    for (let attempt = 0; attempt < 20; attempt += 1) {
-      const status = await connection.getSignatureStatuses([signature]);
-      const info = status?.value?.[0];
-      if (info?.confirmationStatus === 'confirmed' || info?.confirmationStatus === 'finalized') {
-        return;
-      }
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    }
-  };
 
-  const sendTxWithActiveWallet = async (tx: Transaction, feePayer: PublicKey) => {
-    const latest = await connection.getLatestBlockhash('confirmed');
-    tx.feePayer = feePayer;
-    tx.recentBlockhash = latest.blockhash;
-
-    if (activeWallet === WALLET_LOCAL) {
-      if (!localKeypair) {
-        throw new Error('Local wallet not created.');
-      }
-      tx.sign(localKeypair);
-      const signature = await connection.sendRawTransaction(tx.serialize(), { skipPreflight: false });
-      await confirmSignature(signature);
-      return signature;
-    }
+    setCourierError(null);
+    setNeedsReconnect(false);
+    setCourierTx(null);
+    setComputeBudget(null);
+    setSimulation(null);
+    setIsCreating(true);
 
-    if (activeWallet === WALLET_PHANTOM) {
-      if (Platform.OS === 'web') {
-        if (!phantomWebWallet?.signTransaction) {
-          throw new Error('Phantom wallet not ready.');
-        }
-        const signed = await phantomWebWallet.signTransaction(tx);
-        const raw = signed.serialize();
-        const signature = await connection.sendRawTransaction(raw, { skipPreflight: false });
-        await confirmSignature(signature);
-        return signature;
-      }
+    try {
+      const orderPubkey = new PublicKey(orderAddress);
+      const courierPubkey = activeWalletPublicKey;
+      const tx = await buildAcceptOrderTransaction(program, orderPubkey, courierPubkey);
+      setComputeBudget(await applyComputeBudget(connection, tx, courierPubkey));
+      await preflight(tx, courierPubkey, orderPubkey);
 
-      if (!phantomState.session || !phantomState.phantomEncryptionPublicKey) {
-        throw new Error('Missing Phantom session. Reconnect wallet.');
-      }
-      if (!phantomBoxKeypairRef.current) {
-        throw new Error('Missing Phantom keypair.');
+      const signature = await adapter.signAndSend(tx, connection, { action: 'Accept order' });
+      if (signature) {
+        setCourierTx(signature);
       }
-      const { data, nonce, dappPublicKey } = encryptPayload(
-        {
-          session: phantomState.session,
-          transaction: tx.serialize({
-            requireAllSignatures: false,
-            verifySignatures: false,
-          }).toString('base64'),
-        },
-        phantomState.phantomEncryptionPublicKey,
-        phantomBoxKeypairRef.current,
-      );
-      const params = new URLSearchParams({
-        app_url: DAPP_URL,
-        dapp_encryption_public_key: dappPublicKey,
-        redirect_link: PHANTOM_REDIRECT_LINK,
-        cluster: CLUSTER,
-        nonce,
-        data,
-      });
-      const url = `https://phantom.app/ul/v1/signAndSendTransaction?${params.toString()}`;
-      await Linking.openURL(url);
-      return phantomState.signature ?? null;
-    }
-
-    if (Platform.OS === 'web') {
-      if (!webWallet?.signTransaction) {
-        throw new Error('Solflare wallet not ready.');
+    } catch (err) {
+      if (!queueIfUnreachable('Accept', err, 'acceptOrder', [orderAddress])) {
+        reportWalletFailure('Accept', err);
       }
-      const signed = await webWallet.signTransaction(tx);
-      const raw = signed.serialize();
-      const signature = await connection.sendRawTransaction(raw, { skipPreflight: false });
-      await confirmSignature(signature);
-      return signature;
-    }
-
-    if (!solflareState.session || !solflareState.solflareEncryptionPublicKey) {
-      throw new Error('Missing Solflare session. Reconnect wallet.');
-    }
-    if (!solflareBoxKeypairRef.current) {
-      throw new Error('Missing Solflare keypair.');
+    } finally {
+      setIsCreating(false);
     }
-    const { data, nonce, dappPublicKey } = encryptPayload(
-      {
-        session: solflareState.session,
-        transaction: tx.serialize({
-          requireAllSignatures: false,
-          verifySignatures: false,
-        }).toString('base64'),
-      },
-      solflareState.solflareEncryptionPublicKey,
-      solflareBoxKeypairRef.current,
-    );
-    const params = new URLSearchParams({
-      app_url: DAPP_URL,
-      dapp_encryption_public_key: dappPublicKey,
-      redirect_link: REDIRECT_LINK,
-      cluster: CLUSTER,
-      nonce,
-      data,
-    });
-    const url = `https://solflare.com/ul/v1/signAndSendTransaction?${params.toString()}`;
-    await Linking.openURL(url);
-    return solflareState.signature ?? null;
   };
 
-  const acceptOrder = async () => {
+  const completeOrder = async () => {
     if (!program || !programId) {
       setCourierError('Program not ready.');
       return;
@@ -347,92 +178,137 @@ export default function CourierScreen() {
       setCourierError('Enter order PDA.');
       return;
     }
-    if (!activeWalletPublicKey && activeWallet !== WALLET_LOCAL) {
-      setCourierError('Wallet not connected.');
-      return;
-    }
-    if (activeWallet === WALLET_LOCAL && !localKeypair) {
-      setCourierError('Local wallet not created.');
+    if (!activeWalletPublicKey) {
+      setCourierError(
+        activeWallet === WALLET_LOCAL ? 'Local wallet not created.' : 'Wallet not connected.',
+      );
       return;
     }
 
     setCourierError(null);
+    setNeedsReconnect(false);
     setCourierTx(null);
+    setComputeBudget(null);
+    setSimulation(null);
     setIsCreating(true);
 
     try {
       const orderPubkey = new PublicKey(orderAddress);
-      const courierPubkey =
-        activeWallet === WALLET_LOCAL
-          ? localKeypair!.publicKey
-          : activeWalletPublicKey!;
-      const tx = await program.methods
-        .acceptOrder()
-        .accounts({
-          order: orderPubkey,
-          courier: courierPubkey,
-        })
-        .transaction();
-
-      const signature = await sendTxWithActiveWallet(tx, courierPubkey);
+      const courierPubkey = activeWalletPublicKey;
+      const tx = await buildCompleteOrderTransaction(program, orderPubkey, courierPubkey);
+      setComputeBudget(await applyComputeBudget(connection, tx, courierPubkey));
+      await preflight(tx, courierPubkey, orderPubkey);
+
+      const signature = await adapter.signAndSend(tx, connection, { action: 'Complete order' });
       if (signature) {
         setCourierTx(signature);
       }
     } catch (err) {
-      setCourierError(err instanceof Error ? `Accept failed: ${err.message}` : 'Accept failed.');
+      if (!queueIfUnreachable('Complete', err, 'completeOrder', [orderAddress])) {
+        reportWalletFailure('Complete', err);
+      }
     } finally {
       setIsCreating(false);
     }
   };
 
-  const completeOrder = async () => {
-    if (!program || !programId) {
+  const loadOpenOrders = async () => {
+    if (!program) {
       setCourierError('Program not ready.');
       return;
     }
-    if (!orderAddress) {
-      setCourierError('Enter order PDA.');
+
+    setIsLoadingOrders(true);
+    try {
+      const accounts = await program.account.order.all();
+      const next = accounts
+        .filter((item) => 'created' in item.account.status)
+        .map((item) => ({
+          address: item.publicKey.toBase58(),
+          orderId: item.account.orderId.toString(),
+          amount: item.account.amount.toString(),
+          customer: item.account.customer.toBase58(),
+        }));
+      setOpenOrders(next);
+      setSelectedOrders((prev) =>
+        prev.filter((address) => next.some((order) => order.address === address)),
+      );
+    } catch (err) {
+      setCourierError(err instanceof Error ? `Load failed: ${err.message}` : 'Load failed.');
+    } finally {
+      setIsLoadingOrders(false);
+    }
+  };
+
+  const toggleOrder = (address: string) => {
+    setSelectedOrders((prev) =>
+      prev.includes(address) ? prev.filter((item) => item !== address) : [...prev, address],
+    );
+  };
+
+  const acceptSelectedOrders = async () => {
+    if (!program || !programId) {
+      setCourierError('Program not ready.');
       return;
     }
-    if (!activeWalletPublicKey && activeWallet !== WALLET_LOCAL) {
-      setCourierError('Wallet not connected.');
+    if (selectedOrders.length === 0) {
+      setCourierError('Select at least one order.');
       return;
     }
-    if (activeWallet === WALLET_LOCAL && !localKeypair) {
-      setCourierError('Local wallet not created.');
+    if (!activeWalletPublicKey) {
+      setCourierError(
+        activeWallet === WALLET_LOCAL ? 'Local wallet not created.' : 'Wallet not connected.',
+      );
       return;
     }
 
     setCourierError(null);
-    setCourierTx(null);
+    setNeedsReconnect(false);
+    setBatchResults([]);
+    setBatchSimulations([]);
     setIsCreating(true);
 
     try {
-      const orderPubkey = new PublicKey(orderAddress);
-      const courierPubkey =
-        activeWallet === WALLET_LOCAL
-          ? localKeypair!.publicKey
-          : activeWalletPublicKey!;
-      const tx = await program.methods
-        .completeOrder()
-        .accounts({
-          order: orderPubkey,
-          courier: courierPubkey,
-        })
-        .transaction();
-
-      const signature = await sendTxWithActiveWallet(tx, courierPubkey);
-      if (signature) {
-        setCourierTx(signature);
+      const txs = await Promise.all(
+        selectedOrders.map((address) =>
+          buildAcceptOrderTransaction(program, new PublicKey(address), activeWalletPublicKey),
+        ),
+      );
+      await Promise.all(txs.map((tx) => applyComputeBudget(connection, tx, activeWalletPublicKey)));
+      // Every order is simulated and reported before any failure blocks the batch.
+      const simulations: OrderSimulation[] = [];
+      for (const [index, tx] of txs.entries()) {
+        const address = selectedOrders[index];
+        const report = await simulateOrder(tx, activeWalletPublicKey, new PublicKey(address));
+        simulations.push({ address, report });
       }
+      setBatchSimulations(simulations);
+      simulations.forEach(({ report }) => assertSimulationPasses(report));
+
+      const results = await signAndSendAll(adapter, txs, connection, {
+        action: 'Accept selected orders',
+      });
+      setBatchResults(results);
+      setSelectedOrders([]);
+      await loadOpenOrders();
     } catch (err) {
-      setCourierError(err instanceof Error ? `Complete failed: ${err.message}` : 'Complete failed.');
+      if (err instanceof BatchSubmissionError) {
+        setBatchResults(
+          err.confirmations.filter((result): result is ConfirmationResult => result !== null),
+        );
+      }
+      if (queueIfUnreachable('Accept', err, 'acceptOrder', selectedOrders)) {
+        setSelectedOrders([]);
+      } else {
+        reportWalletFailure('Accept', err);
+      }
     } finally {
       setIsCreating(false);
     }
   };
 
   const canCourierAction = Boolean(orderAddress.trim());
+  const courierAddress = activeWalletPublicKey?.toBase58() ?? null;
 
   return (
     <ParallaxScrollView headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}>
@@ -445,11 +321,20 @@ export default function CourierScreen() {
           </ThemedText>
         </View>
 
+        <OwnershipProof statement="Sign in to accept and complete deliveries as a courier." />
+
+        <DeeplinkOutcomeNotice pathname="/courier" />
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">RPC</ThemedText>
+          <RpcEndpointStatus />
+        </View>
+
         <View style={styles.card}>
           <ThemedText type="defaultSemiBold">Order</ThemedText>
           {!programId ? (
             <ThemedText style={styles.cardText}>
-              Program ID missing. Replace `assets/idl/block_delivery.json` with your IDL.
+              Program ID missing. Set one for this cluster in Settings.
             </ThemedText>
           ) : null}
           <TextInput
@@ -484,23 +369,104 @@ export default function CourierScreen() {
             </Pressable>
           </View>
           {courierTx ? <ThemedText style={styles.cardText}>Tx: {courierTx}</ThemedText> : null}
+          {computeBudget ? (
+            <ThemedText style={styles.cardText}>
+              Compute budget: {describeComputeBudget(computeBudget)}
+            </ThemedText>
+          ) : null}
+          {simulation ? <SimulationReportView report={simulation} /> : null}
           {courierError ? <ThemedText style={styles.cardText}>{courierError}</ThemedText> : null}
+          {needsReconnect ? (
+            <WalletReconnect
+              onReconnected={() => {
+                setNeedsReconnect(false);
+                setCourierError(null);
+              }}
+            />
+          ) : null}
         </View>
 
         <View style={styles.card}>
-          <ThemedText type="defaultSemiBold">Events</ThemedText>
-          {Platform.OS !== 'web' ? (
-            <ThemedText style={styles.cardText}>
-              Event streaming is disabled on mobile to avoid websocket errors.
+          <ThemedText type="defaultSemiBold">Open Orders</ThemedText>
+          <Pressable
+            style={({ pressed }) => [
+              styles.disconnectButton,
+              pressed && styles.buttonPressed,
+              isLoadingOrders && styles.buttonDisabled,
+            ]}
+            onPress={loadOpenOrders}
+            disabled={isLoadingOrders}>
+            {isLoadingOrders ? (
+              <ActivityIndicator color={Colors.light.background} />
+            ) : (
+              <ThemedText style={styles.buttonText}>Refresh Orders</ThemedText>
+            )}
+          </Pressable>
+          {openOrders.length === 0 ? (
+            <ThemedText style={styles.cardText}>No open orders loaded.</ThemedText>
+          ) : (
+            openOrders.map((order) => {
+              const isOwnOrder = order.customer === courierAddress;
+              const isSelected = selectedOrders.includes(order.address);
+              return (
+                <Pressable
+                  key={order.address}
+                  style={[
+                    styles.orderRow,
+                    isSelected && styles.orderRowSelected,
+                    isOwnOrder && styles.buttonDisabled,
+                  ]}
+                  onPress={() => toggleOrder(order.address)}
+                  disabled={isOwnOrder}>
+                  <ThemedText style={styles.cardText}>
+                    {isSelected ? '[x]' : '[ ]'} #{order.orderId} · {order.amount} ·{' '}
+                    {shorten(order.address)}
+                    {isOwnOrder ? ' · your order' : ''}
+                  </ThemedText>
+                </Pressable>
+              );
+            })
+          )}
+          <Pressable
+            style={({ pressed }) => [
+              styles.connectButton,
+              pressed && styles.buttonPressed,
+              (isCreating || selectedOrders.length === 0) && styles.buttonDisabled,
+            ]}
+            onPress={acceptSelectedOrders}
+            disabled={isCreating || selectedOrders.length === 0}>
+            <ThemedText style={styles.buttonText}>
+              Accept Selected Orders ({selectedOrders.length})
             </ThemedText>
-          ) : null}
+          </Pressable>
+          {batchSimulations.map(({ address, report }) => (
+            <View key={address} style={styles.orderSimulation}>
+              <ThemedText style={styles.cardText}>Order {shorten(address)}</ThemedText>
+              <SimulationReportView report={report} />
+            </View>
+          ))}
+          {batchResults.map((result) => (
+            <ThemedText key={result.signature} style={styles.cardText}>
+              Tx: {result.signature} ({describeConfirmation(result)})
+            </ThemedText>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Queued Actions</ThemedText>
+          <ActionQueueList kinds={['acceptOrder', 'completeOrder']} />
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Events</ThemedText>
+          <ThemedText style={styles.cardText}>{describeEventStream(eventStream)}</ThemedText>
           {events.length === 0 ? (
             <ThemedText style={styles.cardText}>No events yet.</ThemedText>
           ) : (
             <ScrollView style={styles.events} nestedScrollEnabled>
-              {events.map((event, index) => (
-                <ThemedText key={`${index}`} style={styles.eventItem}>
-                  {JSON.stringify(event, null, 2)}
+              {events.map(({ key, signature, event }) => (
+                <ThemedText key={key} style={styles.eventItem}>
+                  {JSON.stringify({ ...event, signature }, null, 2)}
                 </ThemedText>
               ))}
             </ScrollView>
@@ -574,6 +540,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  orderRow: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  orderRowSelected: {
+    borderColor: '#FF7A00',
+    backgroundColor: 'rgba(255, 122, 0, 0.12)',
+  },
+  orderSimulation: {
+    gap: 4,
+  },
   events: {
     maxHeight: 200,
     borderRadius: 8,
@@ -1,195 +1,177 @@
 import 'react-native-get-random-values';
-import * as Linking from 'expo-linking';
-import { useEffect, useMemo, useRef, useState } from 'react';
-import {
-  ActivityIndicator,
-  Platform,
-  Pressable,
-  StyleSheet,
-  View,
-} from 'react-native';
-import bs58 from 'bs58';
-import nacl from 'tweetnacl';
-import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Platform, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
 
+import { useActiveWallet, useConnection } from '@/components/block-delivery-provider';
+import { DeeplinkOutcomeNotice } from '@/components/deeplink-outcome';
 import { ThemedText } from '@/components/themed-text';
+import { RpcEndpointStatus } from '@/components/rpc-endpoint-status';
 import { ThemedView } from '@/components/themed-view';
 import ParallaxScrollView from '@/components/parallax-scroll-view';
+import { MWA_MOCK_ENDPOINT } from '@/constants/solana';
 import { Colors } from '@/constants/theme';
+import { useActiveCluster } from '@/hooks/use-active-cluster';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import {
-  getSolflareState,
-  handleSolflareCallbackUrl,
-  resetSolflareState,
-  setSolflareKeypair,
-  subscribeSolflareState,
-} from '@/lib/solflare-callback';
+  getDeeplinkWalletState,
+  isDeeplinkProviderId,
+  subscribeDeeplinkWalletState,
+} from '@/lib/deeplink-wallet';
 import {
-  getPhantomState,
-  handlePhantomCallbackUrl,
-  resetPhantomState,
-  setPhantomKeypair,
-  subscribePhantomState,
-} from '@/lib/phantom-callback';
+  changeLocalWalletPasscode,
+  addSavedLocalAccount,
+  exportSecretKey,
+  getLocalVaultState,
+  isMnemonic,
+  keypairFromMnemonic,
+  keypairFromSecretKey,
+  lockLocalWallet,
+  removeLocalWallet,
+  setLocalWalletPasscode,
+  subscribeLocalVaultState,
+  unlockLocalWallet,
+} from '@/lib/local-wallet';
+import { forgetAllDeeplinkSessions } from '@/lib/session-storage';
+import { confirmTransaction, describeConfirmation } from '@/lib/transaction-confirmation';
+import { standardWalletKind } from '@/lib/wallet-adapter';
+import { getStandardWallets, subscribeStandardWallets } from '@/lib/wallet-standard';
 import {
-  getActiveWallet,
+  getLocalAccounts,
   getLocalKeypair,
+  removeLocalAccount,
+  renameLocalAccount,
+  selectLocalAccount,
   setActiveWallet,
-  setLocalKeypair,
-  setPhantomBoxKeypair,
-  setSolflareBoxKeypair,
-  subscribeActiveWallet,
+  subscribeLocalAccounts,
   subscribeLocalKeypair,
 } from '@/lib/wallet-store';
+import type { LocalAccount } from '@/lib/wallet-store';
 
-const DAPP_URL = process.env.EXPO_PUBLIC_DAPP_URL ?? 'https://example.com';
-const CLUSTER = process.env.EXPO_PUBLIC_SOLANA_CHAIN ?? 'localnet';
-const SOLANA_RPC_URL = process.env.EXPO_PUBLIC_SOLANA_RPC_URL ?? 'http://127.0.0.1:8899';
-const REDIRECT_LINK = Linking.createURL('solflare-connect', { scheme: 'blockdeliveryapp' });
-const PHANTOM_REDIRECT_LINK = Linking.createURL('phantom-connect', { scheme: 'blockdeliveryapp' });
 const WALLET_SOLFLARE = 'solflare' as const;
 const WALLET_PHANTOM = 'phantom' as const;
+const WALLET_BACKPACK = 'backpack' as const;
 const WALLET_LOCAL = 'local' as const;
+const WALLET_MWA = 'mwa' as const;
+const DEDICATED_WEB_WALLETS = ['Phantom', 'Solflare', 'Backpack'];
+const AIRDROP_TIMEOUT_MS = 30_000;
+const CONNECT_LABELS = { connect: 'Connect', disconnect: 'Disconnect' };
+// MWA grants the app an authorization rather than a connection.
+const MWA_CONNECT_LABELS = { connect: 'Authorize', disconnect: 'Deauthorize' };
 
 const shorten = (value: string) => `${value.slice(0, 4)}...${value.slice(-4)}`;
 
+const fetchAccountBalances = async (connection: Connection, accounts: LocalAccount[]) => {
+  const infos = await connection.getMultipleAccountsInfo(
+    accounts.map((account) => account.keypair.publicKey),
+    'confirmed',
+  );
+  return Object.fromEntries(
+    accounts.map((account, index) => [
+      account.id,
+      (infos[index]?.lamports ?? 0) / LAMPORTS_PER_SOL,
+    ]),
+  );
+};
+
 export default function WalletScreen() {
   const colorScheme = useColorScheme();
   const palette = Colors[colorScheme ?? 'light'];
-  const [solflareState, setSolflareState] = useState(getSolflareState());
-  const [phantomState, setPhantomState] = useState(getPhantomState());
-  const [activeWallet, setActiveWalletState] = useState<
-    typeof WALLET_SOLFLARE | typeof WALLET_PHANTOM | typeof WALLET_LOCAL
-  >(getActiveWallet());
+  const { activeWallet, adapter, publicKey } = useActiveWallet();
+  const deeplinkProviderId = isDeeplinkProviderId(activeWallet) ? activeWallet : null;
+  const [deeplinkState, setDeeplinkState] = useState(
+    deeplinkProviderId ? getDeeplinkWalletState(deeplinkProviderId) : null,
+  );
   const [isLoading, setIsLoading] = useState(false);
-  const [webWallet, setWebWallet] = useState<any>(null);
-  const [phantomWebWallet, setPhantomWebWallet] = useState<any>(null);
-  const keypairRef = useRef<nacl.BoxKeyPair | null>(null);
-  const phantomKeypairRef = useRef<nacl.BoxKeyPair | null>(null);
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const [walletNotice, setWalletNotice] = useState<string | null>(null);
   const [balance, setBalance] = useState<number | null>(null);
   const [balanceError, setBalanceError] = useState<string | null>(null);
-  const [rpcHealth, setRpcHealth] = useState<'unknown' | 'ok' | 'error'>('unknown');
-  const [rpcMessage, setRpcMessage] = useState<string | null>(null);
-  const [rpcRaw, setRpcRaw] = useState<string | null>(null);
-  const [isCheckingRpc, setIsCheckingRpc] = useState(false);
   const [localKeypair, setLocalKeypairState] = useState<Keypair | null>(getLocalKeypair());
-  const [localBalance, setLocalBalance] = useState<number | null>(null);
+  const [localAccounts, setLocalAccountsState] = useState(getLocalAccounts());
+  const [accountBalances, setAccountBalances] = useState<Record<string, number>>({});
+  const [accountName, setAccountName] = useState('');
+  const [renameInput, setRenameInput] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const [localError, setLocalError] = useState<string | null>(null);
   const [localBusy, setLocalBusy] = useState(false);
+  const [importInput, setImportInput] = useState('');
+  const [importAccount, setImportAccount] = useState('0');
+  const [exportStep, setExportStep] = useState<'hidden' | 'confirm' | 'revealed'>('hidden');
+  const [vaultState, setVaultState] = useState(getLocalVaultState());
+  const [passcode, setPasscode] = useState('');
+  const [nextPasscode, setNextPasscode] = useState('');
+  const [vaultNotice, setVaultNotice] = useState<string | null>(null);
+  const [standardWallets, setStandardWallets] = useState(getStandardWallets());
 
-  const localConnection = useMemo(() => new Connection(SOLANA_RPC_URL, 'confirmed'), []);
+  const cluster = useActiveCluster();
 
-  useEffect(() => subscribeActiveWallet(setActiveWalletState), []);
-  useEffect(() => subscribeLocalKeypair(setLocalKeypairState), []);
+  const connection = useConnection();
 
-  useEffect(() => {
-    setSolflareState(getSolflareState());
-    return subscribeSolflareState((next) => setSolflareState(next));
-  }, []);
+  // Accounts are saved encrypted, so the first one added also sets the passcode.
+  const needsPasscode = vaultState.status === 'empty' || vaultState.status === 'unprotected';
 
-  useEffect(() => {
-    setPhantomState(getPhantomState());
-    return subscribePhantomState((next) => setPhantomState(next));
-  }, []);
+  const localBalance = localKeypair
+    ? (accountBalances[localKeypair.publicKey.toBase58()] ?? null)
+    : null;
 
-  useEffect(() => {
-    if (!localKeypair) {
-      setLocalBalance(null);
-      return;
-    }
+  useEffect(() => subscribeLocalKeypair(setLocalKeypairState), []);
 
-    let active = true;
+  useEffect(() => subscribeLocalAccounts(setLocalAccountsState), []);
 
-    const loadLocalBalance = async () => {
-      try {
-        const lamports = await localConnection.getBalance(localKeypair.publicKey, 'confirmed');
-        if (active) {
-          setLocalBalance(lamports / LAMPORTS_PER_SOL);
-        }
-      } catch (err) {
-        if (active) {
-          setLocalError('Unable to fetch local balance.');
-        }
-      }
-    };
+  useEffect(() => subscribeLocalVaultState(setVaultState), []);
 
-    loadLocalBalance();
+  useEffect(() => subscribeStandardWallets(setStandardWallets), []);
 
-    return () => {
-      active = false;
-    };
-  }, [localConnection, localKeypair]);
+  useEffect(() => {
+    setExportStep('hidden');
+    setPendingDeleteId(null);
+    setRenameInput('');
+  }, [localKeypair]);
 
   useEffect(() => {
-    if (Platform.OS === 'web') {
+    if (!deeplinkProviderId) {
+      setDeeplinkState(null);
       return;
     }
-
-    const subscription = Linking.addEventListener('url', ({ url }) => {
-      handleSolflareCallbackUrl(url);
-      handlePhantomCallbackUrl(url);
-    });
-
-    Linking.getInitialURL().then((url) => {
-      if (url) {
-        handleSolflareCallbackUrl(url);
-        handlePhantomCallbackUrl(url);
-      }
-    });
-
-    return () => subscription.remove();
-  }, []);
+    setDeeplinkState(getDeeplinkWalletState(deeplinkProviderId));
+    return subscribeDeeplinkWalletState(deeplinkProviderId, setDeeplinkState);
+  }, [deeplinkProviderId]);
 
   useEffect(() => {
-    if (Platform.OS !== 'web') {
+    if (localAccounts.length === 0) {
+      setAccountBalances({});
       return;
     }
 
     let active = true;
 
-    const setupWebWallet = async () => {
+    const loadLocalBalance = async () => {
       try {
-        const solflareModule = await import('@solflare-wallet/sdk');
-        if (!active) {
-          return;
+        const balances = await fetchAccountBalances(connection, localAccounts);
+        if (active) {
+          setAccountBalances(balances);
         }
-
-        const wallet = new solflareModule.default();
-        wallet.on?.('connect', () => {
-          setSolflareState((prev) => ({
-            ...prev,
-            publicKey: wallet.publicKey?.toString?.() ?? null,
-          }));
-        });
-        wallet.on?.('disconnect', () => {
-          setSolflareState((prev) => ({ ...prev, publicKey: null }));
-        });
-
-        setWebWallet(wallet);
-      } catch (err) {
+      } catch {
         if (active) {
-          setSolflareState((prev) => ({ ...prev, error: 'Solflare SDK failed to load.' }));
+          setLocalError('Unable to fetch local balance.');
         }
       }
     };
 
-    setupWebWallet();
+    loadLocalBalance();
 
     return () => {
       active = false;
     };
-  }, []);
+  }, [connection, localAccounts]);
 
   useEffect(() => {
-    if (Platform.OS !== 'web') {
-      return;
-    }
-
-    const phantom = (globalThis as any)?.solana;
-    if (phantom?.isPhantom) {
-      setPhantomWebWallet(phantom);
-    }
-  }, []);
+    setWalletError(null);
+    setWalletNotice(null);
+  }, [activeWallet]);
 
   useEffect(() => {
     if (activeWallet === WALLET_LOCAL) {
@@ -198,9 +180,6 @@ export default function WalletScreen() {
       return;
     }
 
-    const publicKey =
-      activeWallet === WALLET_PHANTOM ? phantomState.publicKey : solflareState.publicKey;
-
     if (!publicKey) {
       setBalance(null);
       setBalanceError(null);
@@ -212,25 +191,11 @@ export default function WalletScreen() {
     const loadBalance = async () => {
       setBalanceError(null);
       try {
-        const response = await fetch(SOLANA_RPC_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            id: 1,
-            method: 'getBalance',
-            params: [publicKey],
-          }),
-        });
-        const data = await response.json();
-        const lamports = data?.result?.value;
-        if (typeof lamports !== 'number') {
-          throw new Error('Invalid balance response');
-        }
+        const lamports = await connection.getBalance(publicKey);
         if (active) {
           setBalance(lamports / LAMPORTS_PER_SOL);
         }
-      } catch (err) {
+      } catch {
         if (active) {
           setBalanceError('Unable to fetch balance.');
         }
@@ -242,24 +207,110 @@ export default function WalletScreen() {
     return () => {
       active = false;
     };
-  }, [activeWallet, phantomState.publicKey, solflareState.publicKey]);
+  }, [activeWallet, publicKey, connection]);
+
+  const runVaultAction = async (action: () => Promise<void>, notice: string) => {
+    setLocalBusy(true);
+    setLocalError(null);
+    setVaultNotice(null);
+    try {
+      await action();
+      setVaultNotice(notice);
+      setPasscode('');
+      setNextPasscode('');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Passcode action failed.');
+    } finally {
+      setLocalBusy(false);
+    }
+  };
+
+  const addAccount = (keypair: Keypair, onSaved?: () => void) => {
+    if (needsPasscode && passcode !== nextPasscode) {
+      setLocalError('Passcodes do not match.');
+      return;
+    }
+    runVaultAction(async () => {
+      await addSavedLocalAccount(keypair, accountName, needsPasscode ? passcode : undefined);
+      setActiveWallet(WALLET_LOCAL);
+      setAccountName('');
+      onSaved?.();
+    }, 'Local account saved.');
+  };
 
   const createLocalWallet = () => {
+    addAccount(Keypair.generate());
+  };
+
+  const importLocalWallet = () => {
     setLocalError(null);
-    setActiveWallet(WALLET_LOCAL);
-    const next = Keypair.generate();
-    setLocalKeypair(next);
-    setLocalKeypairState(next);
+    try {
+      const next = isMnemonic(importInput)
+        ? keypairFromMnemonic(importInput, Number(importAccount))
+        : keypairFromSecretKey(importInput);
+      addAccount(next, () => setImportInput(''));
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Import failed.');
+    }
   };
 
-  const refreshLocalBalance = async () => {
+  const protectLocalWallet = () => {
+    if (passcode !== nextPasscode) {
+      setLocalError('Passcodes do not match.');
+      return;
+    }
+    runVaultAction(() => setLocalWalletPasscode(passcode), 'Local wallet saved with passcode.');
+  };
+
+  const unlockLocal = () => {
+    runVaultAction(async () => {
+      await unlockLocalWallet(passcode);
+      setActiveWallet(WALLET_LOCAL);
+    }, 'Local wallet unlocked.');
+  };
+
+  const changeLocalPasscode = () => {
+    runVaultAction(() => changeLocalWalletPasscode(passcode, nextPasscode), 'Passcode changed.');
+  };
+
+  const lockLocal = () => {
+    setVaultNotice(null);
+    lockLocalWallet();
+  };
+
+  const removeLocal = () => {
+    runVaultAction(removeLocalWallet, 'Saved local wallet removed.');
+  };
+
+  const renameSelectedAccount = () => {
     if (!localKeypair) return;
-    setLocalBusy(true);
     setLocalError(null);
     try {
-      const lamports = await localConnection.getBalance(localKeypair.publicKey, 'confirmed');
-      setLocalBalance(lamports / LAMPORTS_PER_SOL);
+      renameLocalAccount(localKeypair.publicKey.toBase58(), renameInput);
+      setRenameInput('');
     } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Rename failed.');
+    }
+  };
+
+  const deleteSelectedAccount = () => {
+    if (!localKeypair) return;
+    const id = localKeypair.publicKey.toBase58();
+    if (pendingDeleteId !== id) {
+      setPendingDeleteId(id);
+      return;
+    }
+    setPendingDeleteId(null);
+    removeLocalAccount(id);
+  };
+
+  const refreshLocalBalance = async () => {
+    if (localAccounts.length === 0) return;
+    setLocalBusy(true);
+    setLocalError(null);
+    try {
+      setAccountBalances(await fetchAccountBalances(connection, localAccounts));
+    } catch {
       setLocalError('Unable to fetch local balance.');
     } finally {
       setLocalBusy(false);
@@ -271,220 +322,85 @@ export default function WalletScreen() {
     setLocalBusy(true);
     setLocalError(null);
     try {
-      const signature = await localConnection.requestAirdrop(
+      const signature = await connection.requestAirdrop(
         localKeypair.publicKey,
         2 * LAMPORTS_PER_SOL,
       );
-      for (let attempt = 0; attempt < 15; attempt += 1) {
-        const status = await localConnection.getSignatureStatuses([signature]);
-        const info = status?.value?.[0];
-        if (info?.confirmationStatus === 'confirmed' || info?.confirmationStatus === 'finalized') {
-          break;
-        }
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      const result = await confirmTransaction(connection, signature, {
+        timeoutMs: AIRDROP_TIMEOUT_MS,
+      });
+      if (result.status !== 'confirmed') {
+        setLocalError(`Airdrop not confirmed. ${describeConfirmation(result)}`);
       }
-      const lamports = await localConnection.getBalance(localKeypair.publicKey, 'confirmed');
-      setLocalBalance(lamports / LAMPORTS_PER_SOL);
-    } catch (err) {
+      const lamports = await connection.getBalance(localKeypair.publicKey, 'confirmed');
+      setAccountBalances((prev) => ({
+        ...prev,
+        [localKeypair.publicKey.toBase58()]: lamports / LAMPORTS_PER_SOL,
+      }));
+    } catch {
       setLocalError('Airdrop failed. Check RPC URL and local validator.');
     } finally {
       setLocalBusy(false);
     }
   };
 
-  const checkRpcHealth = async () => {
-    setIsCheckingRpc(true);
-    setRpcMessage(null);
-    setRpcRaw(null);
+  const connectWallet = async () => {
+    setWalletError(null);
+    setWalletNotice(null);
+    setIsLoading(true);
     try {
-      const response = await fetch(SOLANA_RPC_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'getHealth',
-        }),
-      });
-      const data = await response.json();
-      if (data?.result === 'ok') {
-        setRpcHealth('ok');
-        setRpcMessage('RPC OK');
-      } else {
-        setRpcHealth('error');
-        setRpcMessage('RPC unhealthy');
-      }
-      setRpcRaw(JSON.stringify(data));
+      await adapter.connect({ action: 'Connect wallet' });
     } catch (err) {
-      setRpcHealth('error');
-      setRpcMessage('RPC unreachable');
-      setRpcRaw(err instanceof Error ? err.message : 'Unknown error');
+      setWalletError(err instanceof Error ? err.message : 'Connection cancelled or failed.');
     } finally {
-      setIsCheckingRpc(false);
+      setIsLoading(false);
     }
   };
 
-  const connectSolflare = async () => {
-    setActiveWallet(WALLET_SOLFLARE);
-    setSolflareState((prev) => ({ ...prev, error: null }));
-
-    if (Platform.OS === 'web') {
-      if (!webWallet) {
-        setSolflareState((prev) => ({ ...prev, error: 'Solflare wallet not ready.' }));
-        return;
-      }
-      setIsLoading(true);
-      try {
-        await webWallet.connect();
-      } catch (err) {
-        setSolflareState((prev) => ({ ...prev, error: 'Connection cancelled or failed.' }));
-      } finally {
-        setIsLoading(false);
-      }
-      return;
-    }
-
-    resetSolflareState();
-    const keypair = nacl.box.keyPair();
-    keypairRef.current = keypair;
-    setSolflareKeypair(keypair);
-    setSolflareBoxKeypair(keypair);
-
-    const dappPublicKey = bs58.encode(keypair.publicKey);
-    const params = new URLSearchParams({
-      app_url: DAPP_URL,
-      dapp_encryption_public_key: dappPublicKey,
-      redirect_link: REDIRECT_LINK,
-      cluster: CLUSTER,
-    });
-
-    const url = `https://solflare.com/ul/v1/connect?${params.toString()}`;
+  const disconnectWallet = async () => {
+    setWalletError(null);
+    setWalletNotice(null);
     setIsLoading(true);
     try {
-      await Linking.openURL(url);
+      const result = await adapter.disconnect({ action: 'Disconnect wallet' });
+      if (result === 'confirmed') {
+        setWalletNotice(`${adapter.name} confirmed the disconnect.`);
+      } else if (result === 'timeout') {
+        setWalletNotice(
+          `${adapter.name} did not confirm the disconnect. The session was cleared on this device only.`,
+        );
+      }
     } catch (err) {
-      resetSolflareState();
-      setSolflareState((prev) => ({ ...prev, error: 'Unable to open Solflare.' }));
+      setWalletError(err instanceof Error ? err.message : 'Disconnect failed.');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const connectPhantom = async () => {
-    setActiveWallet(WALLET_PHANTOM);
-    setPhantomState((prev) => ({ ...prev, error: null }));
-
-    if (Platform.OS === 'web') {
-      if (!phantomWebWallet) {
-        setPhantomState((prev) => ({ ...prev, error: 'Phantom wallet not ready.' }));
-        return;
-      }
-      setIsLoading(true);
-      try {
-        const response = await phantomWebWallet.connect();
-        const publicKey =
-          response?.publicKey?.toString?.() ??
-          phantomWebWallet.publicKey?.toString?.() ??
-          null;
-        setPhantomState((prev) => ({ ...prev, publicKey }));
-      } catch (err) {
-        setPhantomState((prev) => ({ ...prev, error: 'Connection cancelled or failed.' }));
-      } finally {
-        setIsLoading(false);
-      }
-      return;
-    }
-
-    resetPhantomState();
-    const keypair = nacl.box.keyPair();
-    phantomKeypairRef.current = keypair;
-    setPhantomKeypair(keypair);
-    setPhantomBoxKeypair(keypair);
-
-    const dappPublicKey = bs58.encode(keypair.publicKey);
-    const params = new URLSearchParams({
-      app_url: DAPP_URL,
-      dapp_encryption_public_key: dappPublicKey,
-      redirect_link: PHANTOM_REDIRECT_LINK,
-      cluster: CLUSTER,
-    });
-
-    const url = `https://phantom.app/ul/v1/connect?${params.toString()}`;
+  const forgetSessions = async () => {
+    setWalletError(null);
     setIsLoading(true);
     try {
-      await Linking.openURL(url);
-    } catch (err) {
-      resetPhantomState();
-      setPhantomState((prev) => ({ ...prev, error: 'Unable to open Phantom.' }));
+      await forgetAllDeeplinkSessions();
+    } catch {
+      setWalletError('Unable to clear saved sessions.');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const disconnectSolflare = async () => {
-    if (Platform.OS === 'web') {
-      if (!webWallet) {
-        return;
-      }
-      setIsLoading(true);
-      try {
-        await webWallet.disconnect();
-      } catch (err) {
-        setSolflareState((prev) => ({ ...prev, error: 'Disconnect failed.' }));
-      } finally {
-        setIsLoading(false);
-      }
-      return;
-    }
-
-    setSolflareKeypair(null);
-    setSolflareBoxKeypair(null);
-    resetSolflareState();
-  };
-
-  const disconnectPhantom = async () => {
-    if (Platform.OS === 'web') {
-      if (!phantomWebWallet) {
-        return;
-      }
-      setIsLoading(true);
-      try {
-        await phantomWebWallet.disconnect();
-      } catch (err) {
-        setPhantomState((prev) => ({ ...prev, error: 'Disconnect failed.' }));
-      } finally {
-        setIsLoading(false);
-      }
-      return;
-    }
-
-    setPhantomKeypair(null);
-    setPhantomBoxKeypair(null);
-    resetPhantomState();
-  };
-
-  const isConnected = Boolean(solflareState.publicKey);
-  const isPhantomConnected = Boolean(phantomState.publicKey);
-  const isLocalConnected = Boolean(localKeypair);
+  const isConnected = Boolean(publicKey);
+  const walletActionLabels = adapter.kind === WALLET_MWA ? MWA_CONNECT_LABELS : CONNECT_LABELS;
+  const detectedWallets = standardWallets.filter(
+    (item) => !DEDICATED_WEB_WALLETS.includes(item.name),
+  );
   const activeError =
-    activeWallet === WALLET_PHANTOM
-      ? phantomState.error
-      : activeWallet === WALLET_LOCAL
-        ? localError
-        : solflareState.error;
+    walletError ?? (activeWallet === WALLET_LOCAL ? localError : (deeplinkState?.error ?? null));
   const statusText = activeError
     ? `Error: ${activeError}`
-    : activeWallet === WALLET_LOCAL
-      ? localKeypair
-        ? `Wallet: ${shorten(localKeypair.publicKey.toBase58())}`
-        : 'Wallet: Not connected'
-      : activeWallet === WALLET_PHANTOM
-        ? phantomState.publicKey
-          ? `Wallet: ${shorten(phantomState.publicKey)}`
-          : 'Wallet: Not connected'
-        : solflareState.publicKey
-          ? `Wallet: ${shorten(solflareState.publicKey)}`
-          : 'Wallet: Not connected';
+    : publicKey
+      ? `Wallet: ${shorten(publicKey.toBase58())}`
+      : 'Wallet: Not connected';
 
   return (
     <ParallaxScrollView headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}>
@@ -497,6 +413,8 @@ export default function WalletScreen() {
           </ThemedText>
         </View>
 
+        <DeeplinkOutcomeNotice pathname="/" />
+
         <View style={styles.card}>
           <ThemedText type="defaultSemiBold">Active Wallet</ThemedText>
           <View style={styles.switchRow}>
@@ -532,6 +450,22 @@ export default function WalletScreen() {
                 Phantom
               </ThemedText>
             </Pressable>
+            <Pressable
+              style={[
+                styles.switchButton,
+                activeWallet === WALLET_BACKPACK && styles.switchButtonActive,
+              ]}
+              onPress={() => setActiveWallet(WALLET_BACKPACK)}>
+              <ThemedText
+                style={[
+                  styles.switchText,
+                  activeWallet === WALLET_BACKPACK
+                    ? styles.switchTextActive
+                    : styles.switchTextInactive,
+                ]}>
+                Backpack
+              </ThemedText>
+            </Pressable>
             <Pressable
               style={[
                 styles.switchButton,
@@ -548,81 +482,340 @@ export default function WalletScreen() {
                 Local
               </ThemedText>
             </Pressable>
-          </View>
-          <ThemedText style={styles.cardText}>
-            Using: {activeWallet.charAt(0).toUpperCase() + activeWallet.slice(1)}
-          </ThemedText>
-          {activeWallet === WALLET_SOLFLARE ? (
-            isConnected ? (
+            {Platform.OS === 'android' || MWA_MOCK_ENDPOINT ? (
               <Pressable
-                style={({ pressed }) => [styles.disconnectButton, pressed && styles.buttonPressed]}
-                onPress={disconnectSolflare}
-                disabled={isLoading}
-                accessibilityRole="button">
-                {isLoading ? (
-                  <ActivityIndicator color={Colors.light.background} />
-                ) : (
-                  <ThemedText style={styles.buttonText}>Disconnect Solflare</ThemedText>
-                )}
-              </Pressable>
-            ) : (
-              <Pressable
-                style={({ pressed }) => [styles.connectButton, pressed && styles.buttonPressed]}
-                onPress={connectSolflare}
-                disabled={isLoading}
-                accessibilityRole="button">
-                {isLoading ? (
-                  <ActivityIndicator color={Colors.light.background} />
-                ) : (
-                  <ThemedText style={styles.buttonText}>Connect Solflare</ThemedText>
-                )}
+                style={[
+                  styles.switchButton,
+                  activeWallet === WALLET_MWA && styles.switchButtonActive,
+                ]}
+                onPress={() => setActiveWallet(WALLET_MWA)}>
+                <ThemedText
+                  style={[
+                    styles.switchText,
+                    activeWallet === WALLET_MWA
+                      ? styles.switchTextActive
+                      : styles.switchTextInactive,
+                  ]}>
+                  Mobile
+                </ThemedText>
               </Pressable>
-            )
+            ) : null}
+          </View>
+          {Platform.OS === 'web' ? (
+            <View style={styles.inputRow}>
+              <ThemedText style={styles.cardText}>Detected browser wallets</ThemedText>
+              {detectedWallets.length === 0 ? (
+                <ThemedText style={styles.cardText}>No other Solana wallets found.</ThemedText>
+              ) : (
+                <View style={styles.switchRow}>
+                  {detectedWallets.map((item) => {
+                    const kind = standardWalletKind(item.name);
+                    return (
+                      <Pressable
+                        key={item.name}
+                        style={[
+                          styles.switchButton,
+                          styles.walletButton,
+                          activeWallet === kind && styles.switchButtonActive,
+                        ]}
+                        onPress={() => setActiveWallet(kind)}>
+                        <Image source={{ uri: item.icon }} style={styles.walletIcon} />
+                        <ThemedText
+                          style={[
+                            styles.switchText,
+                            activeWallet === kind
+                              ? styles.switchTextActive
+                              : styles.switchTextInactive,
+                          ]}>
+                          {item.name}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
           ) : null}
-          {activeWallet === WALLET_PHANTOM ? (
-            isPhantomConnected ? (
+          <ThemedText style={styles.cardText}>Using: {adapter.name}</ThemedText>
+          {activeWallet !== WALLET_LOCAL ? (
+            isConnected ? (
               <Pressable
                 style={({ pressed }) => [styles.disconnectButton, pressed && styles.buttonPressed]}
-                onPress={disconnectPhantom}
+                onPress={disconnectWallet}
                 disabled={isLoading}
                 accessibilityRole="button">
                 {isLoading ? (
                   <ActivityIndicator color={Colors.light.background} />
                 ) : (
-                  <ThemedText style={styles.buttonText}>Disconnect Phantom</ThemedText>
+                  <ThemedText style={styles.buttonText}>
+                    {walletActionLabels.disconnect} {adapter.name}
+                  </ThemedText>
                 )}
               </Pressable>
             ) : (
               <Pressable
                 style={({ pressed }) => [styles.connectButton, pressed && styles.buttonPressed]}
-                onPress={connectPhantom}
+                onPress={connectWallet}
                 disabled={isLoading}
                 accessibilityRole="button">
                 {isLoading ? (
                   <ActivityIndicator color={Colors.light.background} />
                 ) : (
-                  <ThemedText style={styles.buttonText}>Connect Phantom</ThemedText>
+                  <ThemedText style={styles.buttonText}>
+                    {walletActionLabels.connect} {adapter.name}
+                  </ThemedText>
                 )}
               </Pressable>
             )
           ) : null}
           {activeWallet === WALLET_LOCAL ? (
             <>
-              <ThemedText style={styles.cardText}>RPC: {SOLANA_RPC_URL}</ThemedText>
+              <ThemedText style={styles.cardText}>RPC: {cluster.rpcUrl}</ThemedText>
               <ThemedText style={styles.cardText}>
-                Address: {localKeypair ? shorten(localKeypair.publicKey.toBase58()) : 'Not created'}
+                Address:{' '}
+                {localKeypair
+                  ? shorten(localKeypair.publicKey.toBase58())
+                  : vaultState.publicKey
+                    ? `${shorten(vaultState.publicKey)} (locked)`
+                    : 'Not created'}
               </ThemedText>
               <ThemedText style={styles.cardText}>
                 Balance: {localBalance === null ? '—' : `${localBalance.toFixed(4)} SOL`}
               </ThemedText>
+              {localAccounts.length > 0 ? (
+                <View style={styles.inputRow}>
+                  <ThemedText type="defaultSemiBold">Accounts</ThemedText>
+                  {localAccounts.map((account) => {
+                    const isSelected = localKeypair?.publicKey.toBase58() === account.id;
+                    const accountBalance = accountBalances[account.id];
+                    return (
+                      <Pressable
+                        key={account.id}
+                        style={[styles.accountRow, isSelected && styles.accountRowSelected]}
+                        onPress={() => selectLocalAccount(account.id)}
+                        accessibilityRole="button">
+                        <ThemedText type="defaultSemiBold">{account.name}</ThemedText>
+                        <ThemedText style={styles.cardText}>
+                          {shorten(account.id)} ·{' '}
+                          {accountBalance === undefined ? '—' : `${accountBalance.toFixed(4)} SOL`}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              ) : null}
+              {localKeypair ? (
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={renameInput}
+                    onChangeText={setRenameInput}
+                    placeholder="New name for selected account"
+                    placeholderTextColor={palette.icon}
+                  />
+                  <View style={styles.switchRow}>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.connectButton,
+                        styles.flexButton,
+                        pressed && styles.buttonPressed,
+                        !renameInput.trim() && styles.buttonDisabled,
+                      ]}
+                      onPress={renameSelectedAccount}
+                      disabled={!renameInput.trim()}
+                      accessibilityRole="button">
+                      <ThemedText style={styles.buttonText}>Rename</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.disconnectButton,
+                        styles.flexButton,
+                        pressed && styles.buttonPressed,
+                      ]}
+                      onPress={deleteSelectedAccount}
+                      accessibilityRole="button">
+                      <ThemedText style={styles.buttonText}>
+                        {pendingDeleteId ? 'Confirm Delete' : 'Delete Account'}
+                      </ThemedText>
+                    </Pressable>
+                  </View>
+                </View>
+              ) : null}
               {localError ? <ThemedText style={styles.cardText}>{localError}</ThemedText> : null}
-              <Pressable
-                style={({ pressed }) => [styles.connectButton, pressed && styles.buttonPressed]}
-                onPress={createLocalWallet}
-                disabled={localBusy}
-                accessibilityRole="button">
-                <ThemedText style={styles.buttonText}>Generate Local Wallet</ThemedText>
-              </Pressable>
+              {vaultNotice ? <ThemedText style={styles.cardText}>{vaultNotice}</ThemedText> : null}
+              {vaultState.status === 'locked' ? (
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={passcode}
+                    onChangeText={setPasscode}
+                    placeholder="Passcode"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry
+                  />
+                  {vaultState.lockedUntil && vaultState.lockedUntil > Date.now() ? (
+                    <ThemedText style={styles.cardText}>
+                      Locked out after {vaultState.failedAttempts} wrong attempts until{' '}
+                      {new Date(vaultState.lockedUntil).toLocaleTimeString()}.
+                    </ThemedText>
+                  ) : null}
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.connectButton,
+                      pressed && styles.buttonPressed,
+                      (!passcode || localBusy) && styles.buttonDisabled,
+                    ]}
+                    onPress={unlockLocal}
+                    disabled={!passcode || localBusy}
+                    accessibilityRole="button">
+                    {localBusy ? (
+                      <ActivityIndicator color={Colors.light.background} />
+                    ) : (
+                      <ThemedText style={styles.buttonText}>Unlock Local Wallet</ThemedText>
+                    )}
+                  </Pressable>
+                </View>
+              ) : null}
+              {vaultState.status === 'unprotected' ? (
+                <View style={styles.inputRow}>
+                  <ThemedText style={styles.cardText}>
+                    This wallet is not saved. Set a passcode to keep it encrypted on this device.
+                  </ThemedText>
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={passcode}
+                    onChangeText={setPasscode}
+                    placeholder="New passcode"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry
+                  />
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={nextPasscode}
+                    onChangeText={setNextPasscode}
+                    placeholder="Repeat passcode"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry
+                  />
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.connectButton,
+                      pressed && styles.buttonPressed,
+                      (!passcode || localBusy) && styles.buttonDisabled,
+                    ]}
+                    onPress={protectLocalWallet}
+                    disabled={!passcode || localBusy}
+                    accessibilityRole="button">
+                    {localBusy ? (
+                      <ActivityIndicator color={Colors.light.background} />
+                    ) : (
+                      <ThemedText style={styles.buttonText}>Save With Passcode</ThemedText>
+                    )}
+                  </Pressable>
+                </View>
+              ) : null}
+              {vaultState.status === 'unlocked' ? (
+                <View style={styles.inputRow}>
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.disconnectButton,
+                      pressed && styles.buttonPressed,
+                    ]}
+                    onPress={lockLocal}
+                    disabled={localBusy}
+                    accessibilityRole="button">
+                    <ThemedText style={styles.buttonText}>Lock Local Wallet</ThemedText>
+                  </Pressable>
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={passcode}
+                    onChangeText={setPasscode}
+                    placeholder="Current passcode"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry
+                  />
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={nextPasscode}
+                    onChangeText={setNextPasscode}
+                    placeholder="New passcode"
+                    placeholderTextColor={palette.icon}
+                    secureTextEntry
+                  />
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.connectButton,
+                      pressed && styles.buttonPressed,
+                      (!passcode || !nextPasscode || localBusy) && styles.buttonDisabled,
+                    ]}
+                    onPress={changeLocalPasscode}
+                    disabled={!passcode || !nextPasscode || localBusy}
+                    accessibilityRole="button">
+                    <ThemedText style={styles.buttonText}>Change Passcode</ThemedText>
+                  </Pressable>
+                </View>
+              ) : null}
+              {vaultState.status === 'locked' || vaultState.status === 'unlocked' ? (
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.disconnectButton,
+                    pressed && styles.buttonPressed,
+                  ]}
+                  onPress={removeLocal}
+                  disabled={localBusy}
+                  accessibilityRole="button">
+                  <ThemedText style={styles.buttonText}>Remove Saved Wallet</ThemedText>
+                </Pressable>
+              ) : null}
+              {vaultState.status === 'locked' ? (
+                <ThemedText style={styles.cardText}>
+                  Unlock the saved wallet before adding accounts.
+                </ThemedText>
+              ) : (
+                <>
+                  {vaultState.status === 'empty' ? (
+                    <>
+                      <ThemedText style={styles.cardText}>
+                        Choose a passcode. Accounts are saved encrypted on this device with it.
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                        value={passcode}
+                        onChangeText={setPasscode}
+                        placeholder="New passcode"
+                        placeholderTextColor={palette.icon}
+                        secureTextEntry
+                      />
+                      <TextInput
+                        style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                        value={nextPasscode}
+                        onChangeText={setNextPasscode}
+                        placeholder="Repeat passcode"
+                        placeholderTextColor={palette.icon}
+                        secureTextEntry
+                      />
+                    </>
+                  ) : null}
+                  <TextInput
+                    style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                    value={accountName}
+                    onChangeText={setAccountName}
+                    placeholder="Account name (optional)"
+                    placeholderTextColor={palette.icon}
+                  />
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.connectButton,
+                      pressed && styles.buttonPressed,
+                      ((needsPasscode && !passcode) || localBusy) && styles.buttonDisabled,
+                    ]}
+                    onPress={createLocalWallet}
+                    disabled={(needsPasscode && !passcode) || localBusy}
+                    accessibilityRole="button">
+                    <ThemedText style={styles.buttonText}>Generate Local Account</ThemedText>
+                  </Pressable>
+                </>
+              )}
               <Pressable
                 style={({ pressed }) => [styles.disconnectButton, pressed && styles.buttonPressed]}
                 onPress={airdropLocal}
@@ -637,16 +830,123 @@ export default function WalletScreen() {
               <Pressable
                 style={({ pressed }) => [styles.connectButton, pressed && styles.buttonPressed]}
                 onPress={refreshLocalBalance}
-                disabled={!localKeypair || localBusy}
+                disabled={localAccounts.length === 0 || localBusy}
                 accessibilityRole="button">
-                <ThemedText style={styles.buttonText}>Refresh Balance</ThemedText>
+                <ThemedText style={styles.buttonText}>Refresh Balances</ThemedText>
               </Pressable>
-              {Platform.OS === 'android' && SOLANA_RPC_URL.includes('127.0.0.1') ? (
+              <View style={styles.inputRow}>
+                <ThemedText style={styles.cardText}>
+                  Import secret key or recovery phrase
+                </ThemedText>
+                <TextInput
+                  style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                  value={importInput}
+                  onChangeText={setImportInput}
+                  placeholder="Base58 secret key or 12/24 words"
+                  placeholderTextColor={palette.icon}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry={!isMnemonic(importInput)}
+                  multiline={isMnemonic(importInput)}
+                />
+                {isMnemonic(importInput) ? (
+                  <>
+                    <ThemedText style={styles.cardText}>
+                      Account index (m/44&apos;/501&apos;/n&apos;/0&apos;)
+                    </ThemedText>
+                    <TextInput
+                      style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                      value={importAccount}
+                      onChangeText={setImportAccount}
+                      keyboardType="numeric"
+                      placeholder="0"
+                      placeholderTextColor={palette.icon}
+                    />
+                  </>
+                ) : null}
+              </View>
+              <Pressable
+                style={({ pressed }) => [
+                  styles.connectButton,
+                  pressed && styles.buttonPressed,
+                  (!importInput.trim() ||
+                    vaultState.status === 'locked' ||
+                    (needsPasscode && !passcode)) &&
+                    styles.buttonDisabled,
+                ]}
+                onPress={importLocalWallet}
+                disabled={
+                  !importInput.trim() ||
+                  vaultState.status === 'locked' ||
+                  (needsPasscode && !passcode) ||
+                  localBusy
+                }
+                accessibilityRole="button">
+                <ThemedText style={styles.buttonText}>Import Local Wallet</ThemedText>
+              </Pressable>
+              {localKeypair && exportStep === 'hidden' ? (
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.disconnectButton,
+                    pressed && styles.buttonPressed,
+                  ]}
+                  onPress={() => setExportStep('confirm')}
+                  accessibilityRole="button">
+                  <ThemedText style={styles.buttonText}>Export Secret Key</ThemedText>
+                </Pressable>
+              ) : null}
+              {localKeypair && exportStep === 'confirm' ? (
+                <>
+                  <ThemedText style={styles.cardText}>
+                    Anyone with this key controls the wallet and its funds. Only reveal it on a
+                    trusted device.
+                  </ThemedText>
+                  <View style={styles.switchRow}>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.disconnectButton,
+                        styles.flexButton,
+                        pressed && styles.buttonPressed,
+                      ]}
+                      onPress={() => setExportStep('revealed')}
+                      accessibilityRole="button">
+                      <ThemedText style={styles.buttonText}>Reveal</ThemedText>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [
+                        styles.connectButton,
+                        styles.flexButton,
+                        pressed && styles.buttonPressed,
+                      ]}
+                      onPress={() => setExportStep('hidden')}
+                      accessibilityRole="button">
+                      <ThemedText style={styles.buttonText}>Cancel</ThemedText>
+                    </Pressable>
+                  </View>
+                </>
+              ) : null}
+              {localKeypair && exportStep === 'revealed' ? (
+                <>
+                  <ThemedText style={styles.secretText} selectable>
+                    {exportSecretKey(localKeypair)}
+                  </ThemedText>
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.disconnectButton,
+                      pressed && styles.buttonPressed,
+                    ]}
+                    onPress={() => setExportStep('hidden')}
+                    accessibilityRole="button">
+                    <ThemedText style={styles.buttonText}>Hide Secret Key</ThemedText>
+                  </Pressable>
+                </>
+              ) : null}
+              {Platform.OS === 'android' && cluster.rpcUrl.includes('127.0.0.1') ? (
                 <ThemedText style={styles.cardText}>
                   Android note: use 10.0.2.2 for emulator or your LAN IP for device.
                 </ThemedText>
               ) : null}
-              {CLUSTER !== 'localnet' ? (
+              {cluster.name !== 'localnet' ? (
                 <ThemedText style={styles.cardText}>
                   Note: Airdrop works only on localnet/devnet. For mainnet, fund manually.
                 </ThemedText>
@@ -658,21 +958,11 @@ export default function WalletScreen() {
         <View style={styles.card}>
           <ThemedText type="defaultSemiBold">Status</ThemedText>
           <ThemedText style={styles.cardText}>
-            Connection:{' '}
-            {activeWallet === WALLET_LOCAL
-              ? isLocalConnected
-                ? 'Connected'
-                : 'Not connected'
-              : activeWallet === WALLET_PHANTOM
-                ? isPhantomConnected
-                  ? 'Connected'
-                  : 'Not connected'
-                : isConnected
-                  ? 'Connected'
-                  : 'Not connected'}
+            Connection: {isConnected ? 'Connected' : 'Not connected'}
           </ThemedText>
           <ThemedText style={styles.cardText}>{statusText}</ThemedText>
-          <ThemedText style={styles.cardText}>Network: Solana {CLUSTER}</ThemedText>
+          {walletNotice ? <ThemedText style={styles.cardText}>{walletNotice}</ThemedText> : null}
+          <ThemedText style={styles.cardText}>Network: Solana {cluster.name}</ThemedText>
           <ThemedText style={styles.cardText}>
             Balance:{' '}
             {activeWallet === WALLET_LOCAL
@@ -686,40 +976,33 @@ export default function WalletScreen() {
           {activeWallet !== WALLET_LOCAL && balanceError ? (
             <ThemedText style={styles.cardText}>{balanceError}</ThemedText>
           ) : null}
-          {solflareState.lastUrl ? (
-            <ThemedText style={styles.cardText}>Last URL: {solflareState.lastUrl}</ThemedText>
-          ) : null}
-          {activeWallet === WALLET_SOLFLARE && solflareState.signature ? (
-            <ThemedText style={styles.cardText}>Last Signature: {solflareState.signature}</ThemedText>
+          {deeplinkState?.lastUrl ? (
+            <ThemedText style={styles.cardText}>Last URL: {deeplinkState.lastUrl}</ThemedText>
           ) : null}
-          {activeWallet === WALLET_PHANTOM && phantomState.signature ? (
-            <ThemedText style={styles.cardText}>Last Signature: {phantomState.signature}</ThemedText>
+          {deeplinkState?.signature ? (
+            <ThemedText style={styles.cardText}>
+              Last Signature: {deeplinkState.signature}
+            </ThemedText>
           ) : null}
-          {CLUSTER === 'localnet' ? (
+          {cluster.name === 'localnet' ? (
             <ThemedText style={styles.cardText}>
               Note: Solflare may not support localnet signing.
             </ThemedText>
           ) : null}
-          <Pressable
-            style={({ pressed }) => [
-              styles.rpcButton,
-              pressed && styles.buttonPressed,
-              isCheckingRpc && styles.buttonDisabled,
-            ]}
-            onPress={checkRpcHealth}
-            disabled={isCheckingRpc}>
-            {isCheckingRpc ? (
-              <ActivityIndicator color={Colors.light.background} />
-            ) : (
-              <ThemedText style={styles.buttonText}>Check RPC Health</ThemedText>
-            )}
-          </Pressable>
-          <ThemedText style={styles.cardText}>
-            RPC Status:{' '}
-            {rpcHealth === 'unknown' ? 'Unknown' : rpcHealth === 'ok' ? 'OK' : 'Error'}
-          </ThemedText>
-          {rpcMessage ? <ThemedText style={styles.cardText}>{rpcMessage}</ThemedText> : null}
-          {rpcRaw ? <ThemedText style={styles.cardText}>RPC Response: {rpcRaw}</ThemedText> : null}
+          {Platform.OS !== 'web' ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.disconnectButton,
+                pressed && styles.buttonPressed,
+                isLoading && styles.buttonDisabled,
+              ]}
+              onPress={forgetSessions}
+              disabled={isLoading}
+              accessibilityRole="button">
+              <ThemedText style={styles.buttonText}>Forget Saved Sessions</ThemedText>
+            </Pressable>
+          ) : null}
+          <RpcEndpointStatus />
         </View>
       </ThemedView>
     </ParallaxScrollView>
@@ -750,6 +1033,19 @@ const styles = StyleSheet.create({
   cardText: {
     opacity: 0.85,
   },
+  inputRow: {
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  secretText: {
+    fontSize: 12,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+  },
   switchRow: {
     flexDirection: 'row',
     gap: 8,
@@ -767,6 +1063,16 @@ const styles = StyleSheet.create({
     backgroundColor: '#1C1C1C',
     borderColor: '#1C1C1C',
   },
+  walletButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  walletIcon: {
+    width: 18,
+    height: 18,
+    borderRadius: 4,
+  },
   switchText: {
     fontSize: 14,
     fontWeight: '600',
@@ -785,14 +1091,6 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     backgroundColor: '#FF7A00',
   },
-  rpcButton: {
-    marginTop: 8,
-    alignItems: 'center',
-    justifyContent: 'center',
-    paddingVertical: 12,
-    borderRadius: 12,
-    backgroundColor: '#2B5C9A',
-  },
   disconnectButton: {
     marginTop: 8,
     alignItems: 'center',
@@ -801,6 +1099,20 @@ const styles = StyleSheet.create({
     borderRadius: 999,
     backgroundColor: '#1C1C1C',
   },
+  accountRow: {
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+  },
+  accountRowSelected: {
+    borderColor: '#FF7A00',
+    backgroundColor: 'rgba(255, 122, 0, 0.12)',
+  },
+  flexButton: {
+    flex: 1,
+  },
   buttonPressed: {
     opacity: 0.85,
   },
@@ -0,0 +1,399 @@
+import { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, TextInput, View } from 'react-native';
+
+import { LookupTableTool } from '@/components/lookup-table-tool';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import ParallaxScrollView from '@/components/parallax-scroll-view';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  CLUSTER_NAMES,
+  deriveWebSocketUrl,
+  getClusterConfig,
+  resetClusterSettings,
+  setActiveCluster,
+  subscribeClusterConfig,
+  updateClusterSettings,
+  walletClusterParam,
+} from '@/lib/cluster-config';
+import type { ClusterName } from '@/lib/cluster-config';
+import {
+  getPriorityFeeSettings,
+  PRIORITY_FEE_LEVELS,
+  setCustomPriorityFee,
+  setPriorityFeeLevel,
+  subscribePriorityFeeSettings,
+} from '@/lib/priority-fee-settings';
+import type { PriorityFeeLevel } from '@/lib/priority-fee-settings';
+
+const PRIORITY_FEE_DESCRIPTIONS: Record<PriorityFeeLevel, string> = {
+  none: 'Compute unit limit only, no priority fee.',
+  low: '25th percentile of recent fees for the accounts an order touches.',
+  medium: 'Median of recent fees for the accounts an order touches.',
+  high: '90th percentile of recent fees, for racing other couriers.',
+  custom: 'A fixed price in micro-lamports per compute unit.',
+};
+
+export default function SettingsScreen() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const [config, setConfig] = useState(getClusterConfig());
+  const settings = config.clusters[config.cluster];
+  const [rpcUrl, setRpcUrl] = useState(settings.rpcUrl);
+  const [fallbackRpcUrls, setFallbackRpcUrls] = useState(settings.fallbackRpcUrls.join('\n'));
+  const [wsUrl, setWsUrl] = useState(settings.wsUrl);
+  const [programId, setProgramId] = useState(settings.programId);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [feeSettings, setFeeSettings] = useState(getPriorityFeeSettings());
+  const [customFee, setCustomFee] = useState(String(feeSettings.customMicroLamports));
+  const [feeError, setFeeError] = useState<string | null>(null);
+
+  useEffect(() => subscribeClusterConfig(setConfig), []);
+
+  useEffect(() => subscribePriorityFeeSettings(setFeeSettings), []);
+
+  useEffect(() => {
+    setCustomFee(String(feeSettings.customMicroLamports));
+  }, [feeSettings.customMicroLamports]);
+
+  useEffect(() => {
+    setRpcUrl(settings.rpcUrl);
+    setFallbackRpcUrls(settings.fallbackRpcUrls.join('\n'));
+    setWsUrl(settings.wsUrl);
+    setProgramId(settings.programId);
+    setError(null);
+  }, [settings]);
+
+  const derivedWsUrl = (() => {
+    try {
+      return deriveWebSocketUrl(rpcUrl.trim());
+    } catch {
+      return 'Derived from RPC URL';
+    }
+  })();
+
+  const isDirty =
+    rpcUrl !== settings.rpcUrl ||
+    fallbackRpcUrls !== settings.fallbackRpcUrls.join('\n') ||
+    wsUrl !== settings.wsUrl ||
+    programId !== settings.programId;
+
+  const switchCluster = (name: ClusterName) => {
+    if (name === config.cluster) {
+      return;
+    }
+    setActiveCluster(name);
+    setNotice(`Switched to ${name}. Wallet sessions were cleared; reconnect your wallet.`);
+  };
+
+  const saveSettings = () => {
+    setError(null);
+    setNotice(null);
+    try {
+      updateClusterSettings(config.cluster, {
+        rpcUrl,
+        fallbackRpcUrls: fallbackRpcUrls.split(/[\s,]+/),
+        wsUrl,
+        programId,
+      });
+      setNotice(`Saved ${config.cluster} settings.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save settings.');
+    }
+  };
+
+  const selectFeeLevel = (level: PriorityFeeLevel) => {
+    setFeeError(null);
+    setPriorityFeeLevel(level);
+  };
+
+  const saveCustomFee = () => {
+    setFeeError(null);
+    try {
+      setCustomPriorityFee(Number(customFee.trim()));
+    } catch (err) {
+      setFeeError(err instanceof Error ? err.message : 'Unable to save priority fee.');
+    }
+  };
+
+  const resetSettings = () => {
+    setError(null);
+    resetClusterSettings(config.cluster);
+    setNotice(`Restored default ${config.cluster} settings.`);
+  };
+
+  return (
+    <ParallaxScrollView
+      headerBackgroundColor={{ light: '#D0D0D0', dark: '#353636' }}
+      headerImage={
+        <IconSymbol size={220} color="#808080" name="gearshape.fill" style={styles.headerImage} />
+      }>
+      <ThemedView style={styles.container}>
+        <View style={styles.hero}>
+          <ThemedText type="title">Settings</ThemedText>
+          <ThemedText type="subtitle">Cluster and RPC</ThemedText>
+          <ThemedText style={styles.heroCopy}>
+            Choose the Solana cluster and endpoints this app talks to. Changes apply immediately.
+          </ThemedText>
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Cluster</ThemedText>
+          <View style={styles.switchRow}>
+            {CLUSTER_NAMES.map((name) => (
+              <Pressable
+                key={name}
+                style={[styles.switchButton, config.cluster === name && styles.switchButtonActive]}
+                onPress={() => switchCluster(name)}>
+                <ThemedText
+                  style={[
+                    styles.switchText,
+                    config.cluster === name ? styles.switchTextActive : styles.switchTextInactive,
+                  ]}>
+                  {name}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          <ThemedText style={styles.cardText}>
+            Wallet cluster: {walletClusterParam(config.cluster)}
+          </ThemedText>
+          <ThemedText style={styles.cardText}>
+            Switching clusters disconnects deeplink and mobile wallet sessions.
+          </ThemedText>
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Endpoints ({config.cluster})</ThemedText>
+          <View style={styles.inputRow}>
+            <ThemedText style={styles.cardText}>RPC URL</ThemedText>
+            <TextInput
+              style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+              value={rpcUrl}
+              onChangeText={setRpcUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              placeholder="https://api.devnet.solana.com"
+              placeholderTextColor={palette.icon}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <ThemedText style={styles.cardText}>Fallback RPC URLs (one per line)</ThemedText>
+            <TextInput
+              style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+              value={fallbackRpcUrls}
+              onChangeText={setFallbackRpcUrls}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              multiline
+              placeholder="https://rpc.example.com"
+              placeholderTextColor={palette.icon}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <ThemedText style={styles.cardText}>WebSocket URL</ThemedText>
+            <TextInput
+              style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+              value={wsUrl}
+              onChangeText={setWsUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              placeholder={derivedWsUrl}
+              placeholderTextColor={palette.icon}
+            />
+          </View>
+          <View style={styles.inputRow}>
+            <ThemedText style={styles.cardText}>Program ID</ThemedText>
+            <TextInput
+              style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+              value={programId}
+              onChangeText={setProgramId}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="Program ID"
+              placeholderTextColor={palette.icon}
+            />
+          </View>
+          <Pressable
+            style={({ pressed }) => [
+              styles.connectButton,
+              pressed && styles.buttonPressed,
+              !isDirty && styles.buttonDisabled,
+            ]}
+            onPress={saveSettings}
+            disabled={!isDirty}
+            accessibilityRole="button">
+            <ThemedText style={styles.buttonText}>Save</ThemedText>
+          </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.disconnectButton, pressed && styles.buttonPressed]}
+            onPress={resetSettings}
+            accessibilityRole="button">
+            <ThemedText style={styles.buttonText}>Restore Defaults</ThemedText>
+          </Pressable>
+          {error ? <ThemedText style={styles.cardText}>{error}</ThemedText> : null}
+          {notice ? <ThemedText style={styles.cardText}>{notice}</ThemedText> : null}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Priority Fee</ThemedText>
+          <View style={styles.switchRow}>
+            {PRIORITY_FEE_LEVELS.map((level) => (
+              <Pressable
+                key={level}
+                style={[
+                  styles.switchButton,
+                  feeSettings.level === level && styles.switchButtonActive,
+                ]}
+                onPress={() => selectFeeLevel(level)}>
+                <ThemedText
+                  style={[
+                    styles.switchText,
+                    feeSettings.level === level
+                      ? styles.switchTextActive
+                      : styles.switchTextInactive,
+                  ]}>
+                  {level}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+          <ThemedText style={styles.cardText}>
+            {PRIORITY_FEE_DESCRIPTIONS[feeSettings.level]}
+          </ThemedText>
+          {feeSettings.level === 'custom' ? (
+            <View style={styles.inputRow}>
+              <ThemedText style={styles.cardText}>Micro-lamports per compute unit</ThemedText>
+              <TextInput
+                style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+                value={customFee}
+                onChangeText={setCustomFee}
+                keyboardType="number-pad"
+                placeholder="10000"
+                placeholderTextColor={palette.icon}
+              />
+              <Pressable
+                style={({ pressed }) => [
+                  styles.connectButton,
+                  pressed && styles.buttonPressed,
+                  customFee === String(feeSettings.customMicroLamports) && styles.buttonDisabled,
+                ]}
+                onPress={saveCustomFee}
+                disabled={customFee === String(feeSettings.customMicroLamports)}
+                accessibilityRole="button">
+                <ThemedText style={styles.buttonText}>Save Fee</ThemedText>
+              </Pressable>
+            </View>
+          ) : null}
+          {feeError ? <ThemedText style={styles.cardText}>{feeError}</ThemedText> : null}
+        </View>
+
+        <View style={styles.card}>
+          <ThemedText type="defaultSemiBold">Lookup Table ({config.cluster}, developer)</ThemedText>
+          <LookupTableTool />
+        </View>
+      </ThemedView>
+    </ParallaxScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerImage: {
+    position: 'absolute',
+    bottom: -40,
+    left: -20,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 32,
+    gap: 20,
+  },
+  hero: {
+    gap: 8,
+  },
+  heroCopy: {
+    opacity: 0.8,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+    backgroundColor: 'rgba(120, 120, 120, 0.08)',
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  inputRow: {
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  switchButton: {
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+    backgroundColor: 'rgba(120, 120, 120, 0.08)',
+  },
+  switchButtonActive: {
+    backgroundColor: '#1C1C1C',
+    borderColor: '#1C1C1C',
+  },
+  switchText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  switchTextActive: {
+    color: '#FFFFFF',
+  },
+  switchTextInactive: {
+    color: '#1C1C1C',
+  },
+  connectButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 999,
+    backgroundColor: '#FF7A00',
+  },
+  disconnectButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 999,
+    backgroundColor: '#1C1C1C',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+    transform: [{ scale: 0.98 }],
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,11 +1,23 @@
 import 'react-native-get-random-values';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Buffer } from 'buffer';
-import { Stack } from 'expo-router';
+import { Stack, usePathname } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
+import { BlockDeliveryProvider } from '@/components/block-delivery-provider';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { startActionQueuePersistence } from '@/lib/action-queue';
+import { startClusterConfigPersistence } from '@/lib/cluster-config';
+import { startClusterSessionInvalidation } from '@/lib/cluster-sessions';
+import { startPriorityFeePersistence } from '@/lib/priority-fee-settings';
+import { startRpcPoolMonitor } from '@/lib/rpc-pool';
+import { setDeeplinkPathname } from '@/lib/deeplink-returns';
+import { startDeeplinkListener } from '@/lib/deeplink-router';
+import { startLocalWalletPersistence } from '@/lib/local-wallet';
+import { startDeeplinkSessionPersistence } from '@/lib/session-storage';
+import { startWalletStandardDiscovery } from '@/lib/wallet-standard';
 
 if (typeof globalThis !== 'undefined' && !('Buffer' in globalThis)) {
   (globalThis as typeof globalThis & { Buffer?: typeof Buffer }).Buffer = Buffer;
@@ -17,13 +29,27 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const pathname = usePathname();
+
+  useEffect(() => startClusterConfigPersistence(), []);
+  useEffect(() => startClusterSessionInvalidation(), []);
+  useEffect(() => startRpcPoolMonitor(), []);
+  useEffect(() => startPriorityFeePersistence(), []);
+  useEffect(() => startActionQueuePersistence(), []);
+  useEffect(() => startDeeplinkSessionPersistence(), []);
+  useEffect(() => startLocalWalletPersistence(), []);
+  useEffect(() => startWalletStandardDiscovery(), []);
+  useEffect(() => startDeeplinkListener(), []);
+  useEffect(() => setDeeplinkPathname(pathname), [pathname]);
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
+      <BlockDeliveryProvider>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        </Stack>
+      </BlockDeliveryProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
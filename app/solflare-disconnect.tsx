@@ -0,0 +1,6 @@
+import { DeeplinkReturn } from '@/components/deeplink-return';
+import { DEEPLINK_PROVIDERS } from '@/lib/deeplink-wallet';
+
+export default function SolflareDisconnectScreen() {
+  return <DeeplinkReturn route={DEEPLINK_PROVIDERS.solflare.disconnectRoute} />;
+}
@@ -0,0 +1,337 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original IDL can be
+ * found at `assets/idl/block_delivery.json`.
+ */
+export type BlockDelivery = {
+  address: 'AdScDF7jTLCmb3iP4ZPugb6kxDtix1U7pVRu99VDJwdy';
+  metadata: {
+    name: 'blockDelivery';
+    version: '0.1.0';
+    spec: '0.1.0';
+    description: 'Created with Anchor';
+  };
+  instructions: [
+    {
+      name: 'acceptOrder';
+      discriminator: [118, 157, 62, 39, 239, 234, 231, 193];
+      accounts: [
+        {
+          name: 'order';
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: 'const';
+                value: [111, 114, 100, 101, 114];
+              },
+              {
+                kind: 'account';
+                path: 'order.orderId';
+                account: 'order';
+              },
+            ];
+          };
+        },
+        {
+          name: 'courier';
+          writable: true;
+          signer: true;
+        },
+      ];
+      args: [];
+    },
+    {
+      name: 'completeOrder';
+      discriminator: [73, 78, 89, 7, 140, 132, 17, 97];
+      accounts: [
+        {
+          name: 'order';
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: 'const';
+                value: [111, 114, 100, 101, 114];
+              },
+              {
+                kind: 'account';
+                path: 'order.orderId';
+                account: 'order';
+              },
+            ];
+          };
+        },
+        {
+          name: 'courier';
+          writable: true;
+          signer: true;
+        },
+      ];
+      args: [];
+    },
+    {
+      name: 'createOrder';
+      discriminator: [141, 54, 37, 207, 237, 210, 250, 215];
+      accounts: [
+        {
+          name: 'counter';
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: 'const';
+                value: [111, 114, 100, 101, 114, 95, 99, 111, 117, 110, 116, 101, 114];
+              },
+            ];
+          };
+        },
+        {
+          name: 'order';
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: 'const';
+                value: [111, 114, 100, 101, 114];
+              },
+              {
+                kind: 'account';
+                path: 'counter.nextId';
+                account: 'orderCounter';
+              },
+            ];
+          };
+        },
+        {
+          name: 'customer';
+          writable: true;
+          signer: true;
+        },
+        {
+          name: 'systemProgram';
+          address: '11111111111111111111111111111111';
+        },
+      ];
+      args: [
+        {
+          name: 'amount';
+          type: 'u64';
+        },
+      ];
+    },
+    {
+      name: 'initialize';
+      discriminator: [175, 175, 109, 31, 13, 152, 155, 237];
+      accounts: [
+        {
+          name: 'counter';
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: 'const';
+                value: [111, 114, 100, 101, 114, 95, 99, 111, 117, 110, 116, 101, 114];
+              },
+            ];
+          };
+        },
+        {
+          name: 'payer';
+          writable: true;
+          signer: true;
+        },
+        {
+          name: 'systemProgram';
+          address: '11111111111111111111111111111111';
+        },
+      ];
+      args: [];
+    },
+  ];
+  accounts: [
+    {
+      name: 'order';
+      discriminator: [134, 173, 223, 185, 77, 86, 28, 51];
+    },
+    {
+      name: 'orderCounter';
+      discriminator: [124, 210, 2, 119, 178, 200, 59, 95];
+    },
+  ];
+  events: [
+    {
+      name: 'orderAccepted';
+      discriminator: [221, 229, 40, 47, 184, 34, 195, 162];
+    },
+    {
+      name: 'orderCompleted';
+      discriminator: [90, 77, 52, 248, 56, 233, 110, 197];
+    },
+    {
+      name: 'orderCreated';
+      discriminator: [224, 1, 229, 63, 254, 60, 190, 159];
+    },
+  ];
+  errors: [
+    {
+      code: 6000;
+      name: 'orderNotOpen';
+      msg: 'Order is not open';
+    },
+    {
+      code: 6001;
+      name: 'alreadyAccepted';
+      msg: 'Order already accepted';
+    },
+    {
+      code: 6002;
+      name: 'cannotAcceptOwnOrder';
+      msg: 'Customer cannot accept own order';
+    },
+    {
+      code: 6003;
+      name: 'orderNotAccepted';
+      msg: 'Order is not accepted yet';
+    },
+    {
+      code: 6004;
+      name: 'unauthorizedCourier';
+      msg: 'Only the assigned courier can complete this order';
+    },
+  ];
+  types: [
+    {
+      name: 'order';
+      type: {
+        kind: 'struct';
+        fields: [
+          {
+            name: 'customer';
+            type: 'pubkey';
+          },
+          {
+            name: 'orderId';
+            type: 'u64';
+          },
+          {
+            name: 'courier';
+            type: {
+              option: 'pubkey';
+            };
+          },
+          {
+            name: 'amount';
+            type: 'u64';
+          },
+          {
+            name: 'status';
+            type: {
+              defined: {
+                name: 'orderStatus';
+              };
+            };
+          },
+          {
+            name: 'bump';
+            type: 'u8';
+          },
+        ];
+      };
+    },
+    {
+      name: 'orderAccepted';
+      type: {
+        kind: 'struct';
+        fields: [
+          {
+            name: 'order';
+            type: 'pubkey';
+          },
+          {
+            name: 'courier';
+            type: 'pubkey';
+          },
+        ];
+      };
+    },
+    {
+      name: 'orderCompleted';
+      type: {
+        kind: 'struct';
+        fields: [
+          {
+            name: 'order';
+            type: 'pubkey';
+          },
+          {
+            name: 'orderId';
+            type: 'u64';
+          },
+          {
+            name: 'courier';
+            type: 'pubkey';
+          },
+          {
+            name: 'amount';
+            type: 'u64';
+          },
+        ];
+      };
+    },
+    {
+      name: 'orderCounter';
+      type: {
+        kind: 'struct';
+        fields: [
+          {
+            name: 'nextId';
+            type: 'u64';
+          },
+        ];
+      };
+    },
+    {
+      name: 'orderCreated';
+      type: {
+        kind: 'struct';
+        fields: [
+          {
+            name: 'order';
+            type: 'pubkey';
+          },
+          {
+            name: 'orderId';
+            type: 'u64';
+          },
+          {
+            name: 'customer';
+            type: 'pubkey';
+          },
+          {
+            name: 'amount';
+            type: 'u64';
+          },
+        ];
+      };
+    },
+    {
+      name: 'orderStatus';
+      type: {
+        kind: 'enum';
+        variants: [
+          {
+            name: 'created';
+          },
+          {
+            name: 'accepted';
+          },
+          {
+            name: 'delivered';
+          },
+        ];
+      };
+    },
+  ];
+};
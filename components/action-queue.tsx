@@ -0,0 +1,113 @@
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { useActionQueue } from '@/hooks/use-action-queue';
+import { cancelQueuedAction, QUEUED_ACTION_LABELS, retryQueuedAction } from '@/lib/action-queue';
+import type { QueuedAction, QueuedActionKind, QueuedActionStatus } from '@/lib/action-queue';
+
+type ActionQueueListProps = {
+  kinds: QueuedActionKind[];
+};
+
+const STATUS_LABELS: Record<QueuedActionStatus, string> = {
+  pending: 'Waiting for RPC',
+  sending: 'Sending',
+  sent: 'Sent',
+  unknown: 'Check signature',
+  failed: 'Failed',
+};
+
+const describeTarget = (action: QueuedAction) =>
+  action.kind === 'createOrder' ? `amount ${action.target}` : action.target;
+
+export function ActionQueueList({ kinds }: ActionQueueListProps) {
+  const actions = useActionQueue().filter((action) => kinds.includes(action.kind));
+
+  if (actions.length === 0) {
+    return <ThemedText style={styles.cardText}>No queued actions.</ThemedText>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {actions.map((action) => (
+        <View key={action.id} style={styles.item}>
+          <ThemedText style={styles.cardText}>
+            {QUEUED_ACTION_LABELS[action.kind]} ({describeTarget(action)}):{' '}
+            {STATUS_LABELS[action.status]}
+          </ThemedText>
+          <ThemedText style={styles.detailText}>
+            {action.cluster} · {action.wallet} · queued{' '}
+            {new Date(action.queuedAt).toLocaleTimeString()}
+            {action.attempts > 0 ? ` · ${action.attempts} attempt(s)` : ''}
+          </ThemedText>
+          {action.signature ? (
+            <ThemedText style={styles.detailText}>Signature: {action.signature}</ThemedText>
+          ) : null}
+          {action.error ? <ThemedText style={styles.detailText}>{action.error}</ThemedText> : null}
+          {action.status !== 'sending' ? (
+            <View style={styles.buttonRow}>
+              {action.status === 'failed' || action.status === 'unknown' ? (
+                <Pressable
+                  style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+                  onPress={() => retryQueuedAction(action.id)}
+                  accessibilityRole="button">
+                  <ThemedText style={styles.buttonText}>Retry</ThemedText>
+                </Pressable>
+              ) : null}
+              <Pressable
+                style={({ pressed }) => [
+                  styles.button,
+                  styles.cancelButton,
+                  pressed && styles.buttonPressed,
+                ]}
+                onPress={() => cancelQueuedAction(action.id)}
+                accessibilityRole="button">
+                <ThemedText style={styles.buttonText}>
+                  {action.status === 'sent' ? 'Dismiss' : 'Cancel'}
+                </ThemedText>
+              </Pressable>
+            </View>
+          ) : null}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  item: {
+    gap: 4,
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  detailText: {
+    fontSize: 12,
+    opacity: 0.75,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    backgroundColor: '#2B5C9A',
+  },
+  cancelButton: {
+    backgroundColor: '#8A3B3B',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
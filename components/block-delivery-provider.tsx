@@ -0,0 +1,148 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { PropsWithChildren } from 'react';
+import { AnchorProvider, Program } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+import type { BlockDelivery } from '@/assets/idl/block_delivery';
+import idlJson from '@/assets/idl/block_delivery.json';
+import { useActiveCluster } from '@/hooks/use-active-cluster';
+import { useRpcConnection } from '@/hooks/use-rpc-connection';
+import { useWalletAdapter } from '@/hooks/use-wallet-adapter';
+import { startActionQueueDrainer } from '@/lib/action-queue';
+import { INITIAL_EVENT_STREAM_STATUS, startProgramEventStream } from '@/lib/program-events';
+import type { ProgramEvent, ProgramEventStreamStatus } from '@/lib/program-events';
+import { webSocketUrlFor } from '@/lib/rpc-pool';
+import { toAnchorWallet } from '@/lib/wallet-adapter';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+import type { WalletKind } from '@/lib/wallet-store';
+
+const IDL = idlJson as BlockDelivery;
+const EVENT_BUFFER_LIMIT = 200;
+
+// Appends fresh events, skipping any a restarted stream delivered twice, and keeps the newest.
+const appendEvents = (prev: ProgramEvent[], fresh: ProgramEvent[]) => {
+  const known = new Set(prev.map((item) => item.key));
+  return [...prev, ...fresh.filter((item) => !known.has(item.key))].slice(-EVENT_BUFFER_LIMIT);
+};
+
+type ActiveWalletValue = {
+  activeWallet: WalletKind;
+  adapter: WalletAdapter;
+  publicKey: PublicKey | null;
+};
+
+type BlockDeliveryProgramValue = {
+  programId: PublicKey | null;
+  program: Program<BlockDelivery> | null;
+  events: ProgramEvent[];
+  eventStream: ProgramEventStreamStatus;
+  clearEvents: () => void;
+};
+
+type BlockDeliveryContextValue = {
+  connection: Connection;
+  wallet: ActiveWalletValue;
+  program: BlockDeliveryProgramValue;
+};
+
+const BlockDeliveryContext = createContext<BlockDeliveryContextValue | null>(null);
+
+export function BlockDeliveryProvider({ children }: PropsWithChildren) {
+  const cluster = useActiveCluster();
+  const connection = useRpcConnection();
+  const { activeWallet, adapter, publicKey } = useWalletAdapter();
+  const [events, setEvents] = useState<ProgramEvent[]>([]);
+  const [eventStream, setEventStream] = useState(INITIAL_EVENT_STREAM_STATUS);
+  const wsUrl = webSocketUrlFor(connection.rpcEndpoint, cluster.wsUrl);
+
+  const programId = useMemo(() => {
+    try {
+      return new PublicKey(cluster.programId);
+    } catch {
+      return null;
+    }
+  }, [cluster.programId]);
+
+  const program = useMemo(() => {
+    if (!programId) return null;
+    const provider = new AnchorProvider(connection, toAnchorWallet(adapter, publicKey), {
+      commitment: 'confirmed',
+    });
+    return new Program<BlockDelivery>({ ...IDL, address: programId.toBase58() }, provider);
+  }, [connection, adapter, publicKey, programId]);
+
+  // Events from a previous cluster or program are dropped; an endpoint failover keeps them.
+  const programKey = programId?.toBase58() ?? null;
+  useEffect(() => {
+    setEvents([]);
+  }, [cluster.name, programKey]);
+
+  // One event stream per connection and program ID, shared by every screen.
+  useEffect(() => {
+    setEventStream(INITIAL_EVENT_STREAM_STATUS);
+    if (!programId) {
+      return;
+    }
+
+    return startProgramEventStream({
+      connection,
+      programId,
+      wsUrl,
+      onEvents: (fresh) => setEvents((prev) => appendEvents(prev, fresh)),
+      onStatus: setEventStream,
+    });
+  }, [connection, programId, wsUrl]);
+
+  // Queued actions go out from here rather than from a screen, so they drain once, whichever
+  // tab is open, and only for the wallet, cluster and program they were queued under.
+  useEffect(() => {
+    if (!program || !programId || !publicKey) {
+      return;
+    }
+    return startActionQueueDrainer({
+      cluster: cluster.name,
+      connection,
+      program,
+      programId,
+      adapter,
+      publicKey,
+    });
+  }, [cluster.name, connection, program, programId, adapter, publicKey]);
+
+  const clearEvents = useCallback(() => setEvents([]), []);
+
+  const value = useMemo(
+    () => ({
+      connection,
+      wallet: { activeWallet, adapter, publicKey },
+      program: { programId, program, events, eventStream, clearEvents },
+    }),
+    [
+      connection,
+      activeWallet,
+      adapter,
+      publicKey,
+      programId,
+      program,
+      events,
+      eventStream,
+      clearEvents,
+    ],
+  );
+
+  return <BlockDeliveryContext.Provider value={value}>{children}</BlockDeliveryContext.Provider>;
+}
+
+const useBlockDeliveryContext = () => {
+  const context = useContext(BlockDeliveryContext);
+  if (!context) {
+    throw new Error('BlockDeliveryProvider is missing from the component tree.');
+  }
+  return context;
+};
+
+export const useConnection = () => useBlockDeliveryContext().connection;
+
+export const useActiveWallet = () => useBlockDeliveryContext().wallet;
+
+export const useBlockDeliveryProgram = () => useBlockDeliveryContext().program;
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import {
+  dismissDeeplinkOutcome,
+  getDeeplinkOutcomes,
+  subscribeDeeplinkOutcomes,
+} from '@/lib/deeplink-returns';
+import type { DeeplinkOutcome } from '@/lib/deeplink-returns';
+
+type DeeplinkOutcomeNoticeProps = {
+  pathname: string;
+};
+
+const describeOutcome = (outcome: DeeplinkOutcome) => {
+  if (outcome.status === 'cancelled') {
+    return `Cancelled in ${outcome.wallet}.`;
+  }
+  if (outcome.status === 'error') {
+    return outcome.message ?? `${outcome.wallet} returned an error.`;
+  }
+  return outcome.signature ? `Signature: ${outcome.signature}` : `Approved in ${outcome.wallet}.`;
+};
+
+export function DeeplinkOutcomeNotice({ pathname }: DeeplinkOutcomeNoticeProps) {
+  const [outcomes, setOutcomes] = useState(getDeeplinkOutcomes());
+
+  useEffect(() => subscribeDeeplinkOutcomes(setOutcomes), []);
+
+  const outcome = outcomes.find((item) => item.origin.pathname === pathname);
+  if (!outcome) {
+    return null;
+  }
+
+  return (
+    <View style={styles.card}>
+      <ThemedText type="defaultSemiBold">
+        {outcome.origin.action ?? outcome.method} via {outcome.wallet}
+      </ThemedText>
+      <ThemedText style={styles.cardText} selectable>
+        {describeOutcome(outcome)}
+      </ThemedText>
+      <Pressable
+        style={({ pressed }) => [styles.dismissButton, pressed && styles.buttonPressed]}
+        onPress={() => dismissDeeplinkOutcome(outcome.requestId)}
+        accessibilityRole="button">
+        <ThemedText type="link">Dismiss</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+    backgroundColor: 'rgba(120, 120, 120, 0.08)',
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  dismissButton: {
+    alignSelf: 'flex-start',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+});
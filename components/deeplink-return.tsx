@@ -0,0 +1,62 @@
+import * as Linking from 'expo-linking';
+import { Redirect, useLocalSearchParams } from 'expo-router';
+import type { Href } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet } from 'react-native';
+
+import { ThemedView } from '@/components/themed-view';
+import { REQUEST_ID_PARAM } from '@/lib/deeplink-requests';
+import { getDeeplinkReturnPath } from '@/lib/deeplink-returns';
+import { handleDeeplinkUrl } from '@/lib/deeplink-router';
+
+type DeeplinkReturnProps = {
+  route: string;
+};
+
+export function DeeplinkReturn({ route }: DeeplinkReturnProps) {
+  const params = useLocalSearchParams();
+  const [target, setTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const query = new URLSearchParams();
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        query.append(key, value);
+      } else if (Array.isArray(value)) {
+        value.forEach((item) => query.append(key, item));
+      }
+    });
+
+    const base = Linking.createURL(route, { scheme: 'blockdeliveryapp' });
+    const url = query.toString() ? `${base}?${query.toString()}` : base;
+
+    handleDeeplinkUrl(url).then(() => {
+      if (active) {
+        setTarget(getDeeplinkReturnPath(query.get(REQUEST_ID_PARAM)));
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [params, route]);
+
+  if (!target) {
+    return (
+      <ThemedView style={styles.container}>
+        <ActivityIndicator />
+      </ThemedView>
+    );
+  }
+
+  return <Redirect href={target as Href} />;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
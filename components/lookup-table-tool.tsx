@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { PublicKey } from '@solana/web3.js';
+
+import {
+  useActiveWallet,
+  useBlockDeliveryProgram,
+  useConnection,
+} from '@/components/block-delivery-provider';
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import { useActiveCluster } from '@/hooks/use-active-cluster';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { updateClusterSettings } from '@/lib/cluster-config';
+import {
+  commonProgramAccounts,
+  createLookupTable,
+  describeLookupTable,
+  extendLookupTable,
+  fetchLookupTable,
+} from '@/lib/lookup-tables';
+
+export function LookupTableTool() {
+  const colorScheme = useColorScheme();
+  const palette = Colors[colorScheme ?? 'light'];
+  const cluster = useActiveCluster();
+  const connection = useConnection();
+  const { adapter, publicKey } = useActiveWallet();
+  const { programId } = useBlockDeliveryProgram();
+  const [address, setAddress] = useState(cluster.lookupTableAddress);
+  const [tableInfo, setTableInfo] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setAddress(cluster.lookupTableAddress);
+    setTableInfo(null);
+    if (!cluster.lookupTableAddress) {
+      return;
+    }
+    let active = true;
+    fetchLookupTable(connection, new PublicKey(cluster.lookupTableAddress))
+      .then((table) => {
+        if (active) {
+          setTableInfo(table ? describeLookupTable(table) : 'Not found on this cluster.');
+        }
+      })
+      .catch((err) => {
+        if (active) {
+          setTableInfo(err instanceof Error ? `Unavailable: ${err.message}` : 'Unavailable.');
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [connection, cluster.lookupTableAddress]);
+
+  const run = async (label: string, action: () => Promise<string>) => {
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      setError(err instanceof Error ? `${label} failed: ${err.message}` : `${label} failed.`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const selectTable = (next: string) => {
+    updateClusterSettings(cluster.name, { lookupTableAddress: next });
+  };
+
+  const createTable = () =>
+    run('Create', async () => {
+      if (!programId) {
+        throw new Error('Program ID missing.');
+      }
+      const { table } = await createLookupTable(
+        connection,
+        adapter,
+        commonProgramAccounts(programId),
+      );
+      selectTable(table.toBase58());
+      return `Created ${table.toBase58()}. Transactions use it from the next slot.`;
+    });
+
+  const extendTable = () =>
+    run('Extend', async () => {
+      if (!programId) {
+        throw new Error('Program ID missing.');
+      }
+      const added = await extendLookupTable(
+        connection,
+        adapter,
+        new PublicKey(cluster.lookupTableAddress),
+        commonProgramAccounts(programId),
+      );
+      return added > 0 ? `Added ${added} address(es).` : 'The table already holds every account.';
+    });
+
+  const saveAddress = () =>
+    run('Save', async () => {
+      selectTable(address);
+      return address.trim() ? 'Lookup table saved.' : 'Lookup table cleared.';
+    });
+
+  const canSign = Boolean(publicKey && programId) && !isBusy;
+  const isDirty = address !== cluster.lookupTableAddress;
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.cardText}>
+        Transactions are sent as v0 messages. A lookup table holding the program&apos;s common
+        accounts shrinks them; it is created and paid for by the connected wallet.
+      </ThemedText>
+      {cluster.lookupTableAddress ? (
+        <ThemedText style={styles.cardText}>
+          {cluster.lookupTableAddress} ({tableInfo ?? 'Loading...'})
+        </ThemedText>
+      ) : (
+        <ThemedText style={styles.cardText}>No lookup table for {cluster.name}.</ThemedText>
+      )}
+      <TextInput
+        style={[styles.input, { color: palette.text, borderColor: palette.icon }]}
+        value={address}
+        onChangeText={setAddress}
+        autoCapitalize="none"
+        autoCorrect={false}
+        placeholder="Lookup table address"
+        placeholderTextColor={palette.icon}
+      />
+      <Pressable
+        style={({ pressed }) => [
+          styles.button,
+          pressed && styles.buttonPressed,
+          (!isDirty || isBusy) && styles.buttonDisabled,
+        ]}
+        onPress={saveAddress}
+        disabled={!isDirty || isBusy}
+        accessibilityRole="button">
+        <ThemedText style={styles.buttonText}>Save Lookup Table</ThemedText>
+      </Pressable>
+      <Pressable
+        style={({ pressed }) => [
+          styles.button,
+          pressed && styles.buttonPressed,
+          !canSign && styles.buttonDisabled,
+        ]}
+        onPress={cluster.lookupTableAddress ? extendTable : createTable}
+        disabled={!canSign}
+        accessibilityRole="button">
+        {isBusy ? (
+          <ActivityIndicator color={Colors.light.background} />
+        ) : (
+          <ThemedText style={styles.buttonText}>
+            {cluster.lookupTableAddress ? 'Extend With Program Accounts' : 'Create Lookup Table'}
+          </ThemedText>
+        )}
+      </Pressable>
+      {!publicKey ? (
+        <ThemedText style={styles.cardText}>
+          Connect a wallet to create or extend a table.
+        </ThemedText>
+      ) : null}
+      {notice ? <ThemedText style={styles.cardText}>{notice}</ThemedText> : null}
+      {error ? <ThemedText style={styles.cardText}>{error}</ThemedText> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  button: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#2B5C9A',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+    transform: [{ scale: 0.98 }],
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { useActiveWallet } from '@/components/block-delivery-provider';
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import {
+  getOwnershipProof,
+  isOwnershipProofValid,
+  signInWithSolana,
+  subscribeOwnershipProof,
+} from '@/lib/siws';
+
+type OwnershipProofProps = {
+  statement: string;
+};
+
+const shorten = (value: string) => `${value.slice(0, 4)}...${value.slice(-4)}`;
+
+export function OwnershipProof({ statement }: OwnershipProofProps) {
+  const { adapter, publicKey } = useActiveWallet();
+  const [proof, setProof] = useState(getOwnershipProof());
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => subscribeOwnershipProof(setProof), []);
+
+  const isVerified = isOwnershipProofValid(proof, publicKey);
+
+  const proveOwnership = async () => {
+    setError(null);
+    setIsSigning(true);
+    try {
+      await signInWithSolana(adapter, statement, { action: 'Sign in with Solana' });
+    } catch (err) {
+      setError(err instanceof Error ? `Sign-in failed: ${err.message}` : 'Sign-in failed.');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <ThemedText type="defaultSemiBold">Wallet Ownership</ThemedText>
+      <ThemedText style={styles.cardText}>
+        {isVerified && proof
+          ? `Verified ${shorten(proof.address)} until ${new Date(proof.expirationTime).toLocaleTimeString()}`
+          : 'Not verified. Sign a login message to prove you control this wallet.'}
+      </ThemedText>
+      <Pressable
+        style={({ pressed }) => [
+          styles.signButton,
+          pressed && styles.buttonPressed,
+          (isSigning || !publicKey) && styles.buttonDisabled,
+        ]}
+        onPress={proveOwnership}
+        disabled={isSigning || !publicKey}
+        accessibilityRole="button">
+        {isSigning ? (
+          <ActivityIndicator color={Colors.light.background} />
+        ) : (
+          <ThemedText style={styles.buttonText}>Sign In With Solana</ThemedText>
+        )}
+      </Pressable>
+      {error ? <ThemedText style={styles.cardText}>{error}</ThemedText> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 120, 120, 0.25)',
+    backgroundColor: 'rgba(120, 120, 120, 0.08)',
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  signButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 999,
+    backgroundColor: '#1C1C1C',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+    transform: [{ scale: 0.98 }],
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
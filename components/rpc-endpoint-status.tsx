@@ -0,0 +1,92 @@
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+import { useRpcPool } from '@/hooks/use-rpc-pool';
+import { probeRpcPool } from '@/lib/rpc-pool';
+import type { RpcEndpointHealth } from '@/lib/rpc-pool';
+
+const STATUS_LABELS: Record<RpcEndpointHealth['status'], string> = {
+  unknown: 'Not checked',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Down',
+};
+
+const describeEndpoint = (endpoint: RpcEndpointHealth) => {
+  const parts = [STATUS_LABELS[endpoint.status]];
+  if (endpoint.latencyMs !== null) {
+    parts.push(`${endpoint.latencyMs} ms`);
+  }
+  if (endpoint.slotLag !== null) {
+    parts.push(`${endpoint.slotLag} slots behind`);
+  }
+  if (endpoint.error) {
+    parts.push(endpoint.error);
+  }
+  return parts.join(' · ');
+};
+
+export function RpcEndpointStatus() {
+  const { endpoints, activeUrl, isProbing } = useRpcPool();
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.cardText}>Active RPC: {activeUrl}</ThemedText>
+      {endpoints.map((endpoint) => (
+        <ThemedText key={endpoint.url} style={styles.endpointText}>
+          {endpoint.url === activeUrl ? '● ' : '○ '}
+          {endpoint.url} ({describeEndpoint(endpoint)})
+        </ThemedText>
+      ))}
+      <Pressable
+        style={({ pressed }) => [
+          styles.probeButton,
+          pressed && styles.buttonPressed,
+          isProbing && styles.buttonDisabled,
+        ]}
+        onPress={() => probeRpcPool().catch(() => {})}
+        disabled={isProbing}
+        accessibilityRole="button">
+        {isProbing ? (
+          <ActivityIndicator color={Colors.light.background} />
+        ) : (
+          <ThemedText style={styles.buttonText}>Check RPC Health</ThemedText>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  endpointText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
+  probeButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#2B5C9A',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+    transform: [{ scale: 0.98 }],
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
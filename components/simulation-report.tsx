@@ -0,0 +1,68 @@
+import { ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import type { SimulationReport, SimulationVerdict } from '@/lib/simulation';
+
+type SimulationReportViewProps = {
+  report: SimulationReport;
+};
+
+const VERDICT_LABELS: Record<SimulationVerdict, string> = {
+  pass: 'Simulation passed',
+  fail: 'Simulation failed. The transaction was not sent.',
+  inconclusive: 'Simulation unavailable. Sent without a preflight check.',
+};
+
+const formatSnapshot = (value: SimulationReport['accountChanges'][number]['before']) =>
+  value ? `${value.lamports} lamports, ${JSON.stringify(value.data)}` : 'does not exist';
+
+export function SimulationReportView({ report }: SimulationReportViewProps) {
+  return (
+    <View style={styles.container}>
+      <ThemedText type="defaultSemiBold">{VERDICT_LABELS[report.verdict]}</ThemedText>
+      {report.detail ? <ThemedText style={styles.cardText}>{report.detail}</ThemedText> : null}
+      {report.unitsConsumed !== null ? (
+        <ThemedText style={styles.cardText}>
+          Units consumed: {report.unitsConsumed.toLocaleString()}
+        </ThemedText>
+      ) : null}
+      {report.accountChanges.map((change) => (
+        <View key={change.address} style={styles.change}>
+          <ThemedText style={styles.cardText}>
+            {change.label} ({change.address})
+          </ThemedText>
+          <ThemedText style={styles.detailText}>Before: {formatSnapshot(change.before)}</ThemedText>
+          <ThemedText style={styles.detailText}>After: {formatSnapshot(change.after)}</ThemedText>
+        </View>
+      ))}
+      {report.logs.length > 0 ? (
+        <ScrollView style={styles.logs} nestedScrollEnabled>
+          {report.logs.map((line, index) => (
+            <ThemedText key={`${index}`} style={styles.detailText}>
+              {line}
+            </ThemedText>
+          ))}
+        </ScrollView>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  cardText: {
+    opacity: 0.85,
+  },
+  change: {
+    gap: 4,
+  },
+  detailText: {
+    fontSize: 12,
+    opacity: 0.75,
+  },
+  logs: {
+    maxHeight: 200,
+  },
+});
@@ -19,6 +19,7 @@ const MAPPING = {
   'wallet.pass.fill': 'account-balance-wallet',
   'person.fill': 'person',
   'car.fill': 'local-shipping',
+  'gearshape.fill': 'settings',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
 } as IconMapping;
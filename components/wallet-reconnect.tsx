@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+
+import { useActiveWallet } from '@/components/block-delivery-provider';
+import { ThemedText } from '@/components/themed-text';
+import { Colors } from '@/constants/theme';
+
+type WalletReconnectProps = {
+  onReconnected: () => void;
+};
+
+export function WalletReconnect({ onReconnected }: WalletReconnectProps) {
+  const { adapter } = useActiveWallet();
+  const [error, setError] = useState<string | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+
+  const reconnect = async () => {
+    setError(null);
+    setIsReconnecting(true);
+    try {
+      await adapter.connect({ action: 'Reconnect wallet' });
+      onReconnected();
+    } catch (err) {
+      setError(err instanceof Error ? `Reconnect failed: ${err.message}` : 'Reconnect failed.');
+    } finally {
+      setIsReconnecting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={({ pressed }) => [
+          styles.reconnectButton,
+          pressed && styles.buttonPressed,
+          isReconnecting && styles.buttonDisabled,
+        ]}
+        onPress={reconnect}
+        disabled={isReconnecting}
+        accessibilityRole="button">
+        {isReconnecting ? (
+          <ActivityIndicator color={Colors.light.background} />
+        ) : (
+          <ThemedText style={styles.buttonText}>Reconnect {adapter.name}</ThemedText>
+        )}
+      </Pressable>
+      {error ? <ThemedText style={styles.errorText}>{error}</ThemedText> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  reconnectButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 999,
+    backgroundColor: '#1C1C1C',
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonDisabled: {
+    opacity: 0.45,
+    transform: [{ scale: 0.98 }],
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    opacity: 0.85,
+  },
+});
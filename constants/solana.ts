@@ -0,0 +1,4 @@
+export const DAPP_URL = process.env.EXPO_PUBLIC_DAPP_URL ?? 'https://example.com';
+export const DEFAULT_CLUSTER = process.env.EXPO_PUBLIC_SOLANA_CHAIN ?? 'localnet';
+export const DEFAULT_SOLANA_RPC_URL = process.env.EXPO_PUBLIC_SOLANA_RPC_URL;
+export const MWA_MOCK_ENDPOINT = __DEV__ && process.env.EXPO_PUBLIC_MWA_MOCK_ENDPOINT === 'true';
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+import { getActionQueue, subscribeActionQueue } from '@/lib/action-queue';
+
+export function useActionQueue() {
+  const [actions, setActions] = useState(getActionQueue());
+
+  useEffect(() => subscribeActionQueue(setActions), []);
+
+  return actions;
+}
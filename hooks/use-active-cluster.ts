@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+import { getActiveCluster, subscribeClusterConfig } from '@/lib/cluster-config';
+
+export function useActiveCluster() {
+  const [cluster, setCluster] = useState(getActiveCluster());
+
+  useEffect(() => subscribeClusterConfig(() => setCluster(getActiveCluster())), []);
+
+  return cluster;
+}
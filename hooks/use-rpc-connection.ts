@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+
+import { useActiveCluster } from '@/hooks/use-active-cluster';
+import { useRpcPool } from '@/hooks/use-rpc-pool';
+import { createRpcConnection } from '@/lib/rpc-pool';
+
+export function useRpcConnection() {
+  const { wsUrl } = useActiveCluster();
+  const { activeUrl } = useRpcPool();
+
+  // Recreated when failover moves to another endpoint so websocket subscriptions follow it.
+  return useMemo(() => createRpcConnection(activeUrl, wsUrl), [activeUrl, wsUrl]);
+}
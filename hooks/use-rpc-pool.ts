@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+import { getRpcPoolState, subscribeRpcPool } from '@/lib/rpc-pool';
+
+export function useRpcPool() {
+  const [pool, setPool] = useState(getRpcPoolState());
+
+  useEffect(() => subscribeRpcPool(setPool), []);
+
+  return pool;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+import { getWalletAdapter } from '@/lib/wallet-adapter';
+import { getActiveWallet, subscribeActiveWallet } from '@/lib/wallet-store';
+
+export function useWalletAdapter() {
+  const [activeWallet, setActiveWalletState] = useState(getActiveWallet());
+  const adapter = getWalletAdapter(activeWallet);
+  const [publicKey, setPublicKey] = useState(adapter.publicKey);
+
+  useEffect(() => subscribeActiveWallet(setActiveWalletState), []);
+
+  useEffect(() => {
+    setPublicKey(adapter.publicKey);
+    const offConnect = adapter.on('connect', () => setPublicKey(adapter.publicKey));
+    const offDisconnect = adapter.on('disconnect', () => setPublicKey(null));
+    return () => {
+      offConnect();
+      offDisconnect();
+    };
+  }, [adapter]);
+
+  return { activeWallet, adapter, publicKey };
+}
@@ -0,0 +1,224 @@
+import { Keypair } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+
+import { isRpcUnreachableError } from '@/lib/action-queue';
+import type { ActionQueueDrainContext } from '@/lib/action-queue';
+import { SimulationFailedError } from '@/lib/simulation';
+import {
+  BatchSubmissionError,
+  SubmissionUnknownError,
+  TransactionConfirmationError,
+} from '@/lib/transaction-confirmation';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+import { UserRejectedError } from '@/lib/wallet-errors';
+
+jest.mock('@/lib/storage', () => ({
+  readStorage: async () => null,
+  writeStorage: async () => {},
+  deleteStorage: async () => {},
+}));
+
+// Building the real transactions needs a deployed program; the drain only passes them along.
+jest.mock('@/lib/order-transactions', () => ({
+  buildCreateOrderTransaction: async () => ({ tx: {} }),
+  buildAcceptOrderTransaction: async () => ({}),
+  buildCompleteOrderTransaction: async () => ({}),
+}));
+
+jest.mock('@/lib/compute-budget', () => ({
+  applyComputeBudget: async () => {},
+}));
+
+jest.mock('@/lib/simulation', () => ({
+  ...jest.requireActual('@/lib/simulation'),
+  simulateTransaction: async () => ({ verdict: 'pass' }),
+  assertSimulationPasses: () => {},
+}));
+
+// The queue lives at module level, so every test starts from a fresh copy.
+const loadQueue = () => {
+  jest.resetModules();
+  return jest.requireActual<typeof import('@/lib/action-queue')>('@/lib/action-queue');
+};
+
+const wallet = Keypair.generate().publicKey;
+const programId = Keypair.generate().publicKey;
+const scope = {
+  cluster: 'devnet' as const,
+  programId: programId.toBase58(),
+  wallet: wallet.toBase58(),
+};
+
+const drainContext = (signAndSend: jest.Mock): ActionQueueDrainContext => ({
+  cluster: 'devnet',
+  connection: {} as Connection,
+  program: {
+    coder: { accounts: { decode: () => ({}) } },
+  } as unknown as ActionQueueDrainContext['program'],
+  programId,
+  adapter: { signAndSend } as unknown as WalletAdapter,
+  publicKey: wallet,
+});
+
+describe('isRpcUnreachableError', () => {
+  it.each([
+    new TypeError('Network request failed'),
+    new Error('fetch failed'),
+    new Error('503 Service Unavailable'),
+    new Error('failed to get recent blockhash: Error: 502 '),
+    new Error('429 Too Many Requests'),
+    new Error('Request timed out'),
+    new Error('connect ECONNREFUSED 127.0.0.1:8899'),
+  ])('queues transport failure: %s', (err) => {
+    expect(isRpcUnreachableError(err)).toBe(true);
+  });
+
+  it.each([
+    new UserRejectedError('Phantom'),
+    new SimulationFailedError({
+      verdict: 'fail',
+      error: null,
+      detail: 'Simulation failed: fetch failed while loading accounts.',
+      logs: [],
+      unitsConsumed: null,
+      accountChanges: [],
+    }),
+    new TransactionConfirmationError({ status: 'timeout', signature: 'sig' }),
+    new SubmissionUnknownError('sig', new Error('Request timed out')),
+    new BatchSubmissionError([{ status: 'failed', error: new Error('fetch failed') }], [null]),
+    new Error('Transaction simulation failed: custom program error: 0x1770'),
+    new Error('Order ID must be a number.'),
+    'Network request failed',
+  ])('does not queue %s', (err) => {
+    expect(isRpcUnreachableError(err)).toBe(false);
+  });
+});
+
+describe('enqueueAction', () => {
+  it('reuses an unsent action for the same order', () => {
+    const queue = loadQueue();
+
+    const first = queue.enqueueAction('acceptOrder', 'order-1', scope);
+    const second = queue.enqueueAction('acceptOrder', 'order-1', scope);
+
+    expect(second.id).toBe(first.id);
+    expect(queue.getActionQueue()).toHaveLength(1);
+  });
+
+  it('keeps different kinds, orders and wallets apart', () => {
+    const queue = loadQueue();
+
+    queue.enqueueAction('acceptOrder', 'order-1', scope);
+    queue.enqueueAction('completeOrder', 'order-1', scope);
+    queue.enqueueAction('acceptOrder', 'order-2', scope);
+    queue.enqueueAction('acceptOrder', 'order-1', { ...scope, wallet: 'other-wallet' });
+
+    expect(queue.getActionQueue()).toHaveLength(4);
+  });
+
+  it('re-arms a failed action for the same order instead of adding another', async () => {
+    const queue = loadQueue();
+    const order = Keypair.generate().publicKey.toBase58();
+    const first = queue.enqueueAction('acceptOrder', order, scope);
+    await queue.drainActionQueue(
+      drainContext(jest.fn().mockRejectedValue(new Error('custom program error: 0x1770'))),
+    );
+
+    const second = queue.enqueueAction('acceptOrder', order, scope);
+
+    expect(second.id).toBe(first.id);
+    expect(queue.getActionQueue()).toEqual([
+      expect.objectContaining({ id: first.id, status: 'pending', error: null }),
+    ]);
+  });
+
+  it('queues every create, even at the same amount', () => {
+    const queue = loadQueue();
+
+    queue.enqueueAction('createOrder', '100', scope);
+    queue.enqueueAction('createOrder', '100', scope);
+
+    expect(queue.getActionQueue()).toHaveLength(2);
+  });
+});
+
+describe('drainActionQueue', () => {
+  it('sends due actions in order and records their signatures', async () => {
+    const queue = loadQueue();
+    queue.enqueueAction('acceptOrder', Keypair.generate().publicKey.toBase58(), scope);
+    queue.enqueueAction('completeOrder', Keypair.generate().publicKey.toBase58(), scope);
+    const signAndSend = jest.fn().mockResolvedValueOnce('sig-1').mockResolvedValueOnce('sig-2');
+
+    await queue.drainActionQueue(drainContext(signAndSend));
+
+    expect(queue.getActionQueue().map(({ status, signature }) => [status, signature])).toEqual([
+      ['sent', 'sig-1'],
+      ['sent', 'sig-2'],
+    ]);
+  });
+
+  it('stops at the first unreachable RPC and keeps the action pending', async () => {
+    const queue = loadQueue();
+    queue.enqueueAction('acceptOrder', Keypair.generate().publicKey.toBase58(), scope);
+    queue.enqueueAction('completeOrder', Keypair.generate().publicKey.toBase58(), scope);
+    const signAndSend = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+
+    await queue.drainActionQueue(drainContext(signAndSend));
+
+    expect(signAndSend).toHaveBeenCalledTimes(1);
+    expect(queue.getActionQueue().map(({ status, attempts }) => [status, attempts])).toEqual([
+      ['pending', 1],
+      ['pending', 0],
+    ]);
+  });
+
+  it('holds a send the RPC never answered for a manual check instead of replaying it', async () => {
+    const queue = loadQueue();
+    // The fresh queue checks against its own copy of the error class.
+    const { SubmissionUnknownError: FreshSubmissionUnknownError } = jest.requireActual<
+      typeof import('@/lib/transaction-confirmation')
+    >('@/lib/transaction-confirmation');
+    const order = Keypair.generate().publicKey.toBase58();
+    queue.enqueueAction('acceptOrder', order, scope);
+    const signAndSend = jest
+      .fn()
+      .mockRejectedValue(new FreshSubmissionUnknownError('sig-1', new Error('Request timed out')));
+
+    await queue.drainActionQueue(drainContext(signAndSend));
+    queue.enqueueAction('acceptOrder', order, scope);
+    await queue.drainActionQueue(drainContext(signAndSend));
+
+    expect(signAndSend).toHaveBeenCalledTimes(1);
+    expect(queue.getActionQueue()).toEqual([
+      expect.objectContaining({ status: 'unknown', signature: 'sig-1' }),
+    ]);
+  });
+
+  it('marks program failures as failed instead of retrying them', async () => {
+    const queue = loadQueue();
+    queue.enqueueAction('acceptOrder', Keypair.generate().publicKey.toBase58(), scope);
+    const signAndSend = jest
+      .fn()
+      .mockRejectedValue(new Error('Transaction simulation failed: custom program error: 0x1771'));
+
+    await queue.drainActionQueue(drainContext(signAndSend));
+
+    const [action] = queue.getActionQueue();
+    expect(action.status).toBe('failed');
+    expect(action.error).toContain('Order already accepted');
+  });
+
+  it('leaves actions from another wallet alone', async () => {
+    const queue = loadQueue();
+    queue.enqueueAction('acceptOrder', Keypair.generate().publicKey.toBase58(), {
+      ...scope,
+      wallet: Keypair.generate().publicKey.toBase58(),
+    });
+    const signAndSend = jest.fn();
+
+    await queue.drainActionQueue(drainContext(signAndSend));
+
+    expect(signAndSend).not.toHaveBeenCalled();
+    expect(queue.getActionQueue()[0].status).toBe('pending');
+  });
+});
@@ -0,0 +1,135 @@
+import type { DeeplinkRequestRecord } from '@/lib/deeplink-requests';
+
+// Pending requests and outcomes live at module level, so every test starts from a fresh copy.
+const loadModules = () => {
+  jest.resetModules();
+  return {
+    requests:
+      jest.requireActual<typeof import('@/lib/deeplink-requests')>('@/lib/deeplink-requests'),
+    returns: jest.requireActual<typeof import('@/lib/deeplink-returns')>('@/lib/deeplink-returns'),
+  };
+};
+
+describe('deeplink request correlation', () => {
+  it('settles only the request whose id the callback carries', async () => {
+    const { requests } = loadModules();
+    const connect = requests.createDeeplinkRequest('Phantom', 'connect');
+    const sign = requests.createDeeplinkRequest('Phantom', 'signMessage');
+    const settled = jest.fn();
+    sign.promise.then(settled, settled);
+
+    expect(requests.resolveDeeplinkRequest(connect.id, { session: 'session-1' })).toBe(true);
+
+    await expect(connect.promise).resolves.toEqual({ session: 'session-1' });
+    expect(settled).not.toHaveBeenCalled();
+    expect(requests.getDeeplinkRequestRecords().map(({ id }) => id)).toEqual([sign.id]);
+    requests.rejectDeeplinkRequest(sign.id, new Error('done'));
+    await expect(sign.promise).rejects.toThrow('done');
+  });
+
+  it('finds a request only for the wallet that made it, and only once', () => {
+    const { requests } = loadModules();
+    const { id } = requests.createDeeplinkRequest('Phantom', 'signTransaction');
+
+    expect(requests.findDeeplinkRequest(id, 'Solflare')).toBeNull();
+    expect(requests.findDeeplinkRequest(null, 'Phantom')).toBeNull();
+    expect(requests.findDeeplinkRequest(id, 'Phantom')).toEqual({ id, method: 'signTransaction' });
+
+    requests.resolveDeeplinkRequest(id, {});
+
+    expect(requests.findDeeplinkRequest(id, 'Phantom')).toBeNull();
+    expect(requests.resolveDeeplinkRequest(id, {})).toBe(false);
+  });
+
+  it('records the outcome against the screen that started the request', async () => {
+    const { requests, returns } = loadModules();
+    returns.setDeeplinkPathname('/courier');
+    const accept = requests.createDeeplinkRequest('Phantom', 'signAndSendTransaction', {
+      action: 'Accept order',
+    });
+    returns.setDeeplinkPathname('/customer');
+    const create = requests.createDeeplinkRequest('Phantom', 'signAndSendTransaction', {
+      action: 'Create order',
+    });
+
+    requests.resolveDeeplinkRequest(accept.id, { signature: 'sig-1' });
+    requests.resolveDeeplinkRequest(create.id, { signature: 'sig-2' });
+    await Promise.all([accept.promise, create.promise]);
+
+    expect(returns.getDeeplinkOutcomes()).toEqual([
+      expect.objectContaining({
+        requestId: create.id,
+        signature: 'sig-2',
+        origin: { pathname: '/customer', action: 'Create order' },
+      }),
+      expect.objectContaining({
+        requestId: accept.id,
+        status: 'success',
+        signature: 'sig-1',
+        origin: { pathname: '/courier', action: 'Accept order' },
+      }),
+    ]);
+    expect(returns.getDeeplinkReturnPath(accept.id)).toBe('/courier');
+  });
+
+  it('tags the callback link with the request id', () => {
+    const { requests } = loadModules();
+
+    expect(requests.withRequestId('blockdeliveryapp://phantom-connect', 'abc')).toBe(
+      'blockdeliveryapp://phantom-connect?request_id=abc',
+    );
+    expect(requests.withRequestId('exp://host/--/phantom-connect?x=1', 'abc')).toBe(
+      'exp://host/--/phantom-connect?x=1&request_id=abc',
+    );
+  });
+});
+
+describe('deeplink request timeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects a request the wallet never answers and ignores its late callback', async () => {
+    const { requests, returns } = loadModules();
+    const { id, promise } = requests.createDeeplinkRequest('Phantom', 'connect', {
+      timeoutMs: 1_000,
+    });
+    const rejected = expect(promise).rejects.toBeInstanceOf(requests.DeeplinkTimeoutError);
+
+    jest.advanceTimersByTime(1_000);
+
+    await rejected;
+    expect(requests.getDeeplinkRequestRecords()).toEqual([]);
+    expect(returns.getDeeplinkOutcomes()).toEqual([
+      expect.objectContaining({
+        requestId: id,
+        status: 'error',
+        message: 'Phantom did not respond to connect in time.',
+      }),
+    ]);
+    expect(requests.resolveDeeplinkRequest(id, { session: 'late' })).toBe(false);
+  });
+
+  it('keeps the remaining time of a restored request and drops expired ones', () => {
+    const { requests } = loadModules();
+    const now = Date.now();
+    const record = (id: string, expiresAt: number): DeeplinkRequestRecord => ({
+      id,
+      wallet: 'Phantom',
+      method: 'connect',
+      origin: { pathname: '/', action: null },
+      createdAt: now - 1_000,
+      expiresAt,
+    });
+
+    requests.restoreDeeplinkRequests([record('live', now + 500), record('stale', now - 1)], []);
+
+    expect(requests.getDeeplinkRequestRecords().map(({ id }) => id)).toEqual(['live']);
+    jest.advanceTimersByTime(500);
+    expect(requests.getDeeplinkRequestRecords()).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import bs58 from 'bs58';
+import { Buffer } from 'buffer';
+import nacl from 'tweetnacl';
+
+import type { DeeplinkPayload } from '@/lib/deeplink-requests';
+
+// Requests, nonces and wallet sessions live at module level, so every test starts fresh.
+const loadModules = () => {
+  jest.resetModules();
+  return {
+    requests:
+      jest.requireActual<typeof import('@/lib/deeplink-requests')>('@/lib/deeplink-requests'),
+    wallet: jest.requireActual<typeof import('@/lib/deeplink-wallet')>('@/lib/deeplink-wallet'),
+    errors: jest.requireActual<typeof import('@/lib/wallet-errors')>('@/lib/wallet-errors'),
+  };
+};
+
+const SESSION_PUBLIC_KEY = bs58.encode(nacl.randomBytes(32));
+
+// Plays the wallet side: encrypts a payload for the dapp keypair and builds the callback URL.
+const walletCallback = (
+  route: string,
+  requestId: string,
+  dapp: nacl.BoxKeyPair,
+  payload: DeeplinkPayload,
+  {
+    walletBox = nacl.box.keyPair(),
+    nonce = nacl.randomBytes(24),
+    encryptionKeyParam = 'phantom_encryption_public_key',
+  } = {},
+) => {
+  const data = nacl.box(
+    Buffer.from(JSON.stringify(payload), 'utf8'),
+    nonce,
+    dapp.publicKey,
+    walletBox.secretKey,
+  );
+  const query = new URLSearchParams({
+    request_id: requestId,
+    data: bs58.encode(data),
+    nonce: bs58.encode(nonce),
+    [encryptionKeyParam]: bs58.encode(walletBox.publicKey),
+  });
+  return `blockdeliveryapp://${route}?${query.toString()}`;
+};
+
+describe('handleDeeplinkWalletCallbackUrl', () => {
+  it('connects through a callback that matches a pending request', async () => {
+    const { requests, wallet } = loadModules();
+    const dapp = nacl.box.keyPair();
+    wallet.setDeeplinkWalletKeypair('phantom', dapp);
+    const { id, promise } = requests.createDeeplinkRequest('Phantom', 'connect');
+
+    const handled = wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback('phantom-connect', id, dapp, {
+        public_key: SESSION_PUBLIC_KEY,
+        session: 'session-1',
+      }),
+    );
+
+    expect(handled).toBe(true);
+    await expect(promise).resolves.toEqual({
+      public_key: SESSION_PUBLIC_KEY,
+      session: 'session-1',
+    });
+    expect(wallet.getDeeplinkWalletState('phantom')).toMatchObject({
+      publicKey: SESSION_PUBLIC_KEY,
+      session: 'session-1',
+    });
+  });
+
+  it('rejects a callback that replays an already used nonce', async () => {
+    const { requests, wallet } = loadModules();
+    const dapp = nacl.box.keyPair();
+    const options = { walletBox: nacl.box.keyPair(), nonce: nacl.randomBytes(24) };
+    wallet.setDeeplinkWalletKeypair('phantom', dapp);
+    const first = requests.createDeeplinkRequest('Phantom', 'connect');
+    wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback(
+        'phantom-connect',
+        first.id,
+        dapp,
+        { public_key: SESSION_PUBLIC_KEY },
+        options,
+      ),
+    );
+    await first.promise;
+    const second = requests.createDeeplinkRequest('Phantom', 'connect');
+
+    wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback(
+        'phantom-connect',
+        second.id,
+        dapp,
+        { public_key: SESSION_PUBLIC_KEY },
+        options,
+      ),
+    );
+
+    await expect(second.promise).rejects.toBeInstanceOf(requests.DeeplinkSecurityError);
+    await expect(second.promise).rejects.toThrow('Rejected a replayed Phantom callback.');
+  });
+
+  it('ignores callbacks for an unknown or already settled request', async () => {
+    const { requests, wallet } = loadModules();
+    const dapp = nacl.box.keyPair();
+    wallet.setDeeplinkWalletKeypair('phantom', dapp);
+    const { id, promise } = requests.createDeeplinkRequest('Phantom', 'connect');
+    wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback('phantom-connect', id, dapp, { public_key: SESSION_PUBLIC_KEY }),
+    );
+    await promise;
+
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(
+        walletCallback('phantom-connect', 'unknown-request', dapp, { public_key: 'attacker' }),
+      ),
+    ).toBe(false);
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(
+        walletCallback('phantom-connect', id, dapp, { public_key: 'attacker' }),
+      ),
+    ).toBe(false);
+    expect(wallet.getDeeplinkWalletState('phantom').publicKey).toBe(SESSION_PUBLIC_KEY);
+  });
+
+  it('routes a callback by its host to the provider that made the request', async () => {
+    const { requests, wallet } = loadModules();
+    const dapp = nacl.box.keyPair();
+    wallet.setDeeplinkWalletKeypair('solflare', dapp);
+    const { id, promise } = requests.createDeeplinkRequest('Solflare', 'connect');
+    const payload = { public_key: SESSION_PUBLIC_KEY };
+    const options = { encryptionKeyParam: 'solflare_encryption_public_key' };
+
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(
+        walletCallback('phantom-connect', id, dapp, payload, options),
+      ),
+    ).toBe(false);
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(
+        walletCallback('unknown-connect', id, dapp, payload, options),
+      ),
+    ).toBe(false);
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(
+        walletCallback('solflare-connect', id, dapp, payload, options),
+      ),
+    ).toBe(true);
+
+    await expect(promise).resolves.toEqual(payload);
+    expect(wallet.getDeeplinkWalletState('solflare').publicKey).toBe(SESSION_PUBLIC_KEY);
+    expect(wallet.getDeeplinkWalletState('phantom').publicKey).toBeNull();
+  });
+
+  it('rejects a callback whose public_key changes mid-session', async () => {
+    const { requests, wallet } = loadModules();
+    const dapp = nacl.box.keyPair();
+    const walletBox = nacl.box.keyPair();
+    wallet.setDeeplinkWalletKeypair('phantom', dapp);
+    const connect = requests.createDeeplinkRequest('Phantom', 'connect');
+    wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback(
+        'phantom-connect',
+        connect.id,
+        dapp,
+        { public_key: SESSION_PUBLIC_KEY, session: 'session-1' },
+        { walletBox },
+      ),
+    );
+    await connect.promise;
+    const sign = requests.createDeeplinkRequest('Phantom', 'signMessage');
+
+    wallet.handleDeeplinkWalletCallbackUrl(
+      walletCallback(
+        'phantom-connect',
+        sign.id,
+        dapp,
+        { public_key: bs58.encode(nacl.randomBytes(32)), signature: 'forged' },
+        { walletBox },
+      ),
+    );
+
+    await expect(sign.promise).rejects.toBeInstanceOf(requests.DeeplinkSecurityError);
+    await expect(sign.promise).rejects.toThrow('Phantom returned a different wallet mid-session.');
+    expect(wallet.getDeeplinkWalletState('phantom')).toMatchObject({
+      publicKey: SESSION_PUBLIC_KEY,
+      signature: null,
+    });
+  });
+
+  it('surfaces a disconnect the user declines as a rejected request', async () => {
+    const { requests, wallet, errors } = loadModules();
+    const { id, promise } = requests.createDeeplinkRequest('Phantom', 'disconnect');
+    const query = new URLSearchParams({
+      request_id: id,
+      errorCode: '4001',
+      errorMessage: 'User rejected the request.',
+    });
+
+    expect(
+      wallet.handleDeeplinkWalletCallbackUrl(`blockdeliveryapp://phantom-disconnect?${query}`),
+    ).toBe(true);
+
+    await expect(promise).rejects.toBeInstanceOf(errors.UserRejectedError);
+    expect(wallet.getDeeplinkWalletState('phantom').error).toBe('Request cancelled in Phantom.');
+  });
+});
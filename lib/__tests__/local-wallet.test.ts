@@ -0,0 +1,174 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@/lib/storage', () => ({
+  readStorage: async (key: string) => mockStorage.get(key) ?? null,
+  writeStorage: async (key: string, raw: string) => {
+    mockStorage.set(key, raw);
+  },
+  deleteStorage: async (key: string) => {
+    mockStorage.delete(key);
+  },
+}));
+
+const STORAGE_KEY = 'block_delivery.local_wallet';
+
+// Both modules keep their state at module level, so every test starts from a fresh copy.
+const loadModules = () => {
+  jest.resetModules();
+  return {
+    localWallet: jest.requireActual<typeof import('@/lib/local-wallet')>('@/lib/local-wallet'),
+    walletStore: jest.requireActual<typeof import('@/lib/wallet-store')>('@/lib/wallet-store'),
+  };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const storedEntry = () => JSON.parse(mockStorage.get(STORAGE_KEY) ?? 'null');
+
+describe('local wallet v1 migration', () => {
+  const keypair = Keypair.generate();
+  const secretKey = bs58.encode(keypair.secretKey);
+  let stop: () => void = () => {};
+
+  beforeEach(() => {
+    mockStorage.clear();
+    mockStorage.set(STORAGE_KEY, JSON.stringify({ version: 1, secretKey }));
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('loads a v1 plaintext wallet as an unprotected account', async () => {
+    const { localWallet, walletStore } = loadModules();
+
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    expect(walletStore.getLocalAccounts().map((account) => account.id)).toEqual([
+      keypair.publicKey.toBase58(),
+    ]);
+    expect(localWallet.getLocalVaultState().status).toBe('unprotected');
+  });
+
+  it('replaces the plaintext entry once a passcode encrypts it', async () => {
+    const { localWallet } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    await localWallet.setLocalWalletPasscode('correct horse');
+
+    const stored = storedEntry();
+    expect(stored.version).toBe(3);
+    expect(stored.publicKey).toBe(keypair.publicKey.toBase58());
+    expect(mockStorage.get(STORAGE_KEY)).not.toContain(secretKey);
+    expect(localWallet.getLocalVaultState().status).toBe('unlocked');
+  });
+
+  it('does not read the plaintext key again after migrating', async () => {
+    const first = loadModules();
+    stop = first.localWallet.startLocalWalletPersistence();
+    await flush();
+    await first.localWallet.setLocalWalletPasscode('correct horse');
+    stop();
+
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    expect(walletStore.getLocalAccounts()).toEqual([]);
+    expect(localWallet.getLocalVaultState().status).toBe('locked');
+
+    await localWallet.unlockLocalWallet('correct horse');
+    expect(walletStore.getLocalAccounts().map((account) => account.id)).toEqual([
+      keypair.publicKey.toBase58(),
+    ]);
+  });
+
+  it('drops the plaintext entry when its account is removed before migrating', async () => {
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    walletStore.removeLocalAccount(keypair.publicKey.toBase58());
+    await flush();
+
+    expect(mockStorage.has(STORAGE_KEY)).toBe(false);
+    expect(localWallet.getLocalVaultState().status).toBe('empty');
+  });
+
+  it('keeps the plaintext entry while its account is still in use', async () => {
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    walletStore.addLocalAccount(Keypair.generate(), 'Second');
+    await flush();
+
+    expect(storedEntry()).toEqual({ version: 1, secretKey });
+  });
+});
+
+describe('addSavedLocalAccount', () => {
+  let stop: () => void = () => {};
+
+  beforeEach(() => {
+    mockStorage.clear();
+  });
+
+  afterEach(() => {
+    stop();
+  });
+
+  it('refuses to keep a new account in memory only', async () => {
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+
+    await expect(localWallet.addSavedLocalAccount(Keypair.generate(), 'Customer')).rejects.toThrow(
+      'Set a passcode',
+    );
+    expect(walletStore.getLocalAccounts()).toEqual([]);
+  });
+
+  it('saves the first account encrypted so it survives a reload', async () => {
+    const keypair = Keypair.generate();
+    const first = loadModules();
+    stop = first.localWallet.startLocalWalletPersistence();
+    await flush();
+    await first.localWallet.addSavedLocalAccount(keypair, 'Customer', 'correct horse');
+    await flush();
+    stop();
+
+    expect(mockStorage.get(STORAGE_KEY)).not.toContain(bs58.encode(keypair.secretKey));
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+    await localWallet.unlockLocalWallet('correct horse');
+
+    expect(walletStore.getLocalAccounts()).toEqual([
+      expect.objectContaining({ id: keypair.publicKey.toBase58(), name: 'Customer' }),
+    ]);
+  });
+
+  it('adds later accounts to the open vault without asking again', async () => {
+    const { localWallet, walletStore } = loadModules();
+    stop = localWallet.startLocalWalletPersistence();
+    await flush();
+    await localWallet.addSavedLocalAccount(Keypair.generate(), 'Customer', 'correct horse');
+    await flush();
+
+    await localWallet.addSavedLocalAccount(Keypair.generate(), 'Courier');
+    await flush();
+
+    expect(walletStore.getLocalAccounts().map((account) => account.name)).toEqual([
+      'Customer',
+      'Courier',
+    ]);
+    expect(localWallet.getLocalVaultState().status).toBe('unlocked');
+    expect(storedEntry().version).toBe(3);
+  });
+});
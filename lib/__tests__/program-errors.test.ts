@@ -0,0 +1,41 @@
+import { decodeProgramError, describeProgramError } from '@/lib/program-errors';
+
+describe('decodeProgramError', () => {
+  it('decodes a custom program error from a transaction error', () => {
+    const decoded = decodeProgramError({ InstructionError: [0, { Custom: 6002 }] });
+
+    expect(decoded).toMatchObject({
+      source: 'program',
+      code: 6002,
+      name: 'CannotAcceptOwnOrder',
+    });
+  });
+
+  it('decodes the hex code in a preflight message', () => {
+    const decoded = decodeProgramError(
+      new Error('Transaction simulation failed: custom program error: 0x1773'),
+    );
+
+    expect(decoded?.name).toBe('OrderNotAccepted');
+  });
+
+  it('prefers Anchor errors found in the logs', () => {
+    const decoded = decodeProgramError(new Error('Simulation failed.'), [
+      'Program log: AnchorError caused by account: order. Error Code: AccountNotInitialized. Error Number: 3012.',
+    ]);
+
+    expect(decoded).toMatchObject({ source: 'anchor', code: 3012 });
+  });
+
+  it('maps system failures to a funding hint', () => {
+    const decoded = decodeProgramError({ InstructionError: [0, { Custom: 1 }] });
+
+    expect(decoded?.source).toBe('system');
+    expect(describeProgramError(decoded!)).toContain('Fund the wallet');
+  });
+
+  it('leaves transport errors undecoded', () => {
+    expect(decodeProgramError(new TypeError('Network request failed'))).toBeNull();
+    expect(decodeProgramError({ InstructionError: [0, { Custom: 424242 }] })).toBeNull();
+  });
+});
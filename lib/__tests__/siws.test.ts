@@ -0,0 +1,106 @@
+import { Keypair } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import nacl from 'tweetnacl';
+
+import {
+  createSignInMessage,
+  getOwnershipProof,
+  parseSignInMessage,
+  signInWithSolana,
+  SignInVerificationError,
+  verifySignInMessage,
+} from '@/lib/siws';
+import type { SignInMessageFields } from '@/lib/siws';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+
+const NOW = Date.parse('2026-01-01T00:00:00.000Z');
+
+const keypair = Keypair.generate();
+
+const fields = (overrides: Partial<SignInMessageFields> = {}): SignInMessageFields => ({
+  domain: 'example.com',
+  address: keypair.publicKey.toBase58(),
+  statement: 'Prove you control this wallet.',
+  uri: 'https://example.com',
+  version: '1',
+  chainId: 'solana:devnet',
+  nonce: 'nonce-1',
+  issuedAt: new Date(NOW).toISOString(),
+  expirationTime: new Date(NOW + 60_000).toISOString(),
+  ...overrides,
+});
+
+const sign = (message: string, signer = keypair) =>
+  nacl.sign.detached(Buffer.from(message, 'utf8'), signer.secretKey);
+
+const expected = { domain: 'example.com', nonce: 'nonce-1', now: NOW };
+
+describe('verifySignInMessage', () => {
+  it('accepts the message it asked for and returns its fields', () => {
+    const message = createSignInMessage(fields());
+
+    expect(verifySignInMessage(message, sign(message), keypair.publicKey, expected)).toEqual(
+      fields(),
+    );
+    expect(parseSignInMessage(message)).toEqual(fields());
+  });
+
+  it.each([
+    ['a signature from another key', fields(), Keypair.generate(), 'Signature does not match'],
+    ['another domain', fields({ domain: 'evil.example' }), keypair, 'is for evil.example'],
+    [
+      'another wallet',
+      fields({ address: Keypair.generate().publicKey.toBase58() }),
+      keypair,
+      'names a different wallet',
+    ],
+    ['another nonce', fields({ nonce: 'nonce-2' }), keypair, 'nonce does not match'],
+    [
+      'an expired message',
+      fields({ expirationTime: new Date(NOW).toISOString() }),
+      keypair,
+      'has expired',
+    ],
+    ['an unreadable expiry', fields({ expirationTime: 'soon' }), keypair, 'has expired'],
+  ])('rejects %s', (_label, messageFields, signer, reason) => {
+    const message = createSignInMessage(messageFields);
+
+    expect(() =>
+      verifySignInMessage(message, sign(message, signer), keypair.publicKey, expected),
+    ).toThrow(new RegExp(reason));
+  });
+
+  it('rejects a signed message that is not a sign-in message', () => {
+    const message = 'Transfer everything';
+
+    expect(() => verifySignInMessage(message, sign(message), keypair.publicKey, expected)).toThrow(
+      SignInVerificationError,
+    );
+  });
+});
+
+describe('signInWithSolana', () => {
+  const adapterSigning = (signMessage: WalletAdapter['signMessage']) =>
+    ({ publicKey: keypair.publicKey, signMessage }) as unknown as WalletAdapter;
+
+  it('stores a proof once the wallet signs the generated message', async () => {
+    const proof = await signInWithSolana(
+      adapterSigning(async (message) => nacl.sign.detached(message, keypair.secretKey)),
+      'Prove you control this wallet.',
+    );
+
+    expect(proof.address).toBe(keypair.publicKey.toBase58());
+    expect(getOwnershipProof()).toBe(proof);
+  });
+
+  it('rejects a wallet that signs a different message', async () => {
+    const replayed = createSignInMessage(fields({ nonce: 'old-nonce' }));
+
+    await expect(
+      signInWithSolana(
+        adapterSigning(async () => sign(replayed)),
+        'Prove you control this wallet.',
+      ),
+    ).rejects.toThrow(SignInVerificationError);
+  });
+});
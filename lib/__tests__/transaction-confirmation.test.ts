@@ -0,0 +1,170 @@
+import type { Connection, SignatureStatus } from '@solana/web3.js';
+
+import {
+  BatchSubmissionError,
+  confirmTransaction,
+  describeConfirmation,
+  lastValidBlockHeightFor,
+  rememberBlockhash,
+} from '@/lib/transaction-confirmation';
+
+const SIGNATURE =
+  '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+const status = (value: Partial<SignatureStatus> | null) =>
+  value && { slot: 10, confirmations: null, err: null, ...value };
+
+const fakeConnection = ({
+  statuses = [null],
+  blockHeight = 0,
+}: {
+  statuses?: (Partial<SignatureStatus> | null)[];
+  blockHeight?: number;
+} = {}) => {
+  let poll = 0;
+  return {
+    getSignatureStatuses: jest.fn(async () => {
+      const next = statuses[Math.min(poll, statuses.length - 1)];
+      poll += 1;
+      return { context: { slot: 10 }, value: [status(next)] };
+    }),
+    getBlockHeight: jest.fn(async () => blockHeight),
+    sendRawTransaction: jest.fn(async () => SIGNATURE),
+  };
+};
+
+const asConnection = (connection: ReturnType<typeof fakeConnection>) =>
+  connection as unknown as Connection;
+
+describe('confirmTransaction', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports a confirmed transaction with its slot', async () => {
+    const connection = fakeConnection({ statuses: [{ confirmationStatus: 'confirmed' }] });
+
+    const result = await confirmTransaction(asConnection(connection), SIGNATURE);
+
+    expect(result).toEqual({
+      status: 'confirmed',
+      signature: SIGNATURE,
+      slot: 10,
+      confirmationStatus: 'confirmed',
+    });
+  });
+
+  it('reports an on-chain failure instead of treating it as confirmed', async () => {
+    const err = { InstructionError: [0, { Custom: 6000 }] };
+    const connection = fakeConnection({ statuses: [{ err, confirmationStatus: 'confirmed' }] });
+
+    const result = await confirmTransaction(asConnection(connection), SIGNATURE);
+
+    expect(result).toEqual({ status: 'failed', signature: SIGNATURE, slot: 10, err });
+    expect(describeConfirmation(result)).toContain('Order is not open');
+  });
+
+  it('reports expiry once the block height passes the last valid height', async () => {
+    const connection = fakeConnection({ blockHeight: 101 });
+
+    const result = await confirmTransaction(asConnection(connection), SIGNATURE, {
+      lastValidBlockHeight: 100,
+    });
+
+    expect(result).toEqual({ status: 'expired', signature: SIGNATURE, lastValidBlockHeight: 100 });
+    expect(connection.getSignatureStatuses).toHaveBeenLastCalledWith([SIGNATURE], {
+      searchTransactionHistory: true,
+    });
+  });
+
+  it('prefers a confirmation that raced the expiry', async () => {
+    const connection = fakeConnection({
+      statuses: [null, { confirmationStatus: 'finalized' }],
+      blockHeight: 101,
+    });
+
+    const result = await confirmTransaction(asConnection(connection), SIGNATURE, {
+      lastValidBlockHeight: 100,
+    });
+
+    expect(result.status).toBe('confirmed');
+  });
+
+  it('times out without claiming the transaction failed', async () => {
+    const connection = fakeConnection();
+
+    const result = await confirmTransaction(asConnection(connection), SIGNATURE, { timeoutMs: 0 });
+
+    expect(result).toEqual({ status: 'timeout', signature: SIGNATURE });
+  });
+
+  it('rebroadcasts the signed bytes while waiting', async () => {
+    jest.useFakeTimers();
+    const connection = fakeConnection({
+      statuses: [null, null, null, { confirmationStatus: 'confirmed' }],
+    });
+    const rawTransaction = new Uint8Array([1, 2, 3]);
+
+    const pending = confirmTransaction(asConnection(connection), SIGNATURE, { rawTransaction });
+    await jest.advanceTimersByTimeAsync(5_000);
+    const result = await pending;
+
+    expect(result.status).toBe('confirmed');
+    expect(connection.sendRawTransaction).toHaveBeenCalledWith(rawTransaction, {
+      skipPreflight: true,
+      maxRetries: 0,
+    });
+  });
+
+  it('keeps polling through RPC errors', async () => {
+    jest.useFakeTimers();
+    const connection = fakeConnection({ statuses: [{ confirmationStatus: 'confirmed' }] });
+    connection.getSignatureStatuses.mockRejectedValueOnce(new Error('fetch failed'));
+
+    const pending = confirmTransaction(asConnection(connection), SIGNATURE);
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    await expect(pending).resolves.toMatchObject({ status: 'confirmed' });
+  });
+});
+
+describe('rememberBlockhash', () => {
+  it('looks up the expiry recorded for a blockhash', () => {
+    rememberBlockhash({ blockhash: 'hash-a', lastValidBlockHeight: 42 });
+
+    expect(lastValidBlockHeightFor('hash-a')).toBe(42);
+    expect(lastValidBlockHeightFor('hash-b')).toBeNull();
+    expect(lastValidBlockHeightFor(null)).toBeNull();
+  });
+
+  it('forgets the oldest blockhashes first', () => {
+    rememberBlockhash({ blockhash: 'oldest', lastValidBlockHeight: 1 });
+    for (let index = 0; index < 32; index += 1) {
+      rememberBlockhash({ blockhash: `hash-${index}`, lastValidBlockHeight: index });
+    }
+
+    expect(lastValidBlockHeightFor('oldest')).toBeNull();
+    expect(lastValidBlockHeightFor('hash-31')).toBe(31);
+  });
+});
+
+describe('BatchSubmissionError', () => {
+  it('keeps the signatures that were submitted alongside the failures', () => {
+    const confirmed = {
+      status: 'confirmed' as const,
+      signature: SIGNATURE,
+      slot: 10,
+      confirmationStatus: 'confirmed' as const,
+    };
+    const error = new BatchSubmissionError(
+      [
+        { status: 'submitted', signature: SIGNATURE },
+        { status: 'failed', error: new Error('Network request failed') },
+      ],
+      [confirmed, null],
+    );
+
+    expect(error.message).toBe('1 of 2 transactions were not submitted. Network request failed');
+    expect(error.confirmations).toEqual([confirmed, null]);
+  });
+});
@@ -0,0 +1,62 @@
+import { SimulationFailedError } from '@/lib/simulation';
+import {
+  SubmissionUnknownError,
+  TransactionConfirmationError,
+} from '@/lib/transaction-confirmation';
+import {
+  describeTransactionFailure,
+  SessionExpiredError,
+  UserRejectedError,
+} from '@/lib/wallet-errors';
+
+describe('describeTransactionFailure', () => {
+  it.each([
+    ['a rejection', new UserRejectedError('Phantom'), 'Accept cancelled in Phantom.', null],
+    [
+      'a failed simulation',
+      new SimulationFailedError({
+        verdict: 'fail',
+        error: null,
+        detail: 'Order already accepted.',
+        logs: [],
+        unitsConsumed: null,
+        accountChanges: [],
+      }),
+      'Accept blocked: Order already accepted.',
+      null,
+    ],
+    [
+      'an unconfirmed send',
+      new TransactionConfirmationError({ status: 'timeout', signature: 'sig-1' }),
+      expect.stringMatching(/^Accept not confirmed: /),
+      'sig-1',
+    ],
+    [
+      'an unanswered send',
+      new SubmissionUnknownError('sig-2', new Error('Request timed out')),
+      expect.stringMatching(/^Accept outcome unknown: /),
+      'sig-2',
+    ],
+    [
+      'a program error',
+      new Error('Transaction simulation failed: custom program error: 0x1771'),
+      expect.stringContaining('Order already accepted'),
+      null,
+    ],
+    ['a non-error value', 'offline', 'Accept failed.', null],
+  ])('describes %s', (_label, err, message, signature) => {
+    expect(describeTransactionFailure('Accept', err)).toEqual({
+      message,
+      signature,
+      needsReconnect: false,
+    });
+  });
+
+  it('asks for a reconnect when the wallet session is gone', () => {
+    expect(describeTransactionFailure('Create', new SessionExpiredError('Solflare'))).toEqual({
+      message: 'Create failed: Solflare session expired. Reconnect wallet.',
+      signature: null,
+      needsReconnect: true,
+    });
+  });
+});
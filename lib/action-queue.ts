@@ -0,0 +1,370 @@
+import type { Program } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+import type { BlockDelivery } from '@/assets/idl/block_delivery';
+import type { ClusterName } from '@/lib/cluster-config';
+import { applyComputeBudget } from '@/lib/compute-budget';
+import {
+  buildAcceptOrderTransaction,
+  buildCompleteOrderTransaction,
+  buildCreateOrderTransaction,
+} from '@/lib/order-transactions';
+import { decodeProgramError, describeProgramError } from '@/lib/program-errors';
+import { getRpcPoolState, subscribeRpcPool } from '@/lib/rpc-pool';
+import {
+  assertSimulationPasses,
+  SimulationFailedError,
+  simulateTransaction,
+} from '@/lib/simulation';
+import { readStorage, writeStorage } from '@/lib/storage';
+import {
+  BatchSubmissionError,
+  SubmissionUnknownError,
+  TransactionConfirmationError,
+} from '@/lib/transaction-confirmation';
+import type { WalletAdapter } from '@/lib/wallet-adapter';
+import { UserRejectedError } from '@/lib/wallet-errors';
+
+export type QueuedActionKind = 'createOrder' | 'acceptOrder' | 'completeOrder';
+
+// `unknown` is a send whose outcome could not be read back; it waits for a manual check.
+export type QueuedActionStatus = 'pending' | 'sending' | 'sent' | 'unknown' | 'failed';
+
+export type QueuedAction = {
+  id: string;
+  kind: QueuedActionKind;
+  // `amount` for createOrder, the order PDA for accept and complete.
+  target: string;
+  cluster: ClusterName;
+  programId: string;
+  wallet: string;
+  status: QueuedActionStatus;
+  attempts: number;
+  signature: string | null;
+  error: string | null;
+  queuedAt: number;
+  lastAttemptAt: number | null;
+};
+
+export type ActionQueueDrainContext = {
+  cluster: ClusterName;
+  connection: Connection;
+  program: Program<BlockDelivery>;
+  programId: PublicKey;
+  adapter: WalletAdapter;
+  publicKey: PublicKey;
+};
+
+type StoredActionQueue = {
+  version: number;
+  actions: QueuedAction[];
+};
+
+type ActionQueueListener = (next: QueuedAction[]) => void;
+
+const ACTION_QUEUE_STORAGE_VERSION = 1;
+const ACTION_QUEUE_STORAGE_KEY = 'block_delivery.action_queue';
+const RETRY_INTERVAL_MS = 10_000;
+const UNREACHABLE_PATTERN =
+  /network request failed|failed to fetch|fetch failed|all rpc endpoints failed|econnrefused|econnreset|enotfound|etimedout|timed out|timeout|service unavailable|too many requests|bad gateway|gateway timeout/i;
+// HTTP 429 and 5xx as surfaced by the pool ("503 Service Unavailable") or web3.js wrappers.
+const TRANSIENT_STATUS_PATTERN = /(?:^|[\s:])(?:429|5\d\d)\b/;
+
+export const QUEUED_ACTION_LABELS: Record<QueuedActionKind, string> = {
+  createOrder: 'Create order',
+  acceptOrder: 'Accept order',
+  completeOrder: 'Complete order',
+};
+
+let actions: QueuedAction[] = [];
+let listeners: ActionQueueListener[] = [];
+let isDraining = false;
+
+const emit = () => {
+  listeners.forEach((listener) => listener(actions));
+};
+
+const updateAction = (id: string, next: Partial<QueuedAction>) => {
+  actions = actions.map((action) => (action.id === id ? { ...action, ...next } : action));
+  emit();
+};
+
+export const getActionQueue = () => actions;
+
+export const subscribeActionQueue = (listener: ActionQueueListener) => {
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((item) => item !== listener);
+  };
+};
+
+// Only transport failures (fetch errors, timeouts, 429 and 5xx) before the transaction went out
+// are worth queueing, whatever the pool currently reports. A submit without an answer, program
+// errors, simulation failures, rejections and unconfirmed sends are reported to the user
+// instead, so nothing that may have landed is replayed. A partial batch is judged per transaction.
+export const isRpcUnreachableError = (err: unknown) => {
+  if (
+    !(err instanceof Error) ||
+    err instanceof UserRejectedError ||
+    err instanceof SubmissionUnknownError ||
+    err instanceof TransactionConfirmationError ||
+    err instanceof BatchSubmissionError ||
+    err instanceof SimulationFailedError ||
+    decodeProgramError(err)
+  ) {
+    return false;
+  }
+  return UNREACHABLE_PATTERN.test(err.message) || TRANSIENT_STATUS_PATTERN.test(err.message);
+};
+
+const isSameAction = (
+  action: QueuedAction,
+  kind: QueuedActionKind,
+  target: string,
+  scope: Pick<QueuedAction, 'cluster' | 'programId' | 'wallet'>,
+) =>
+  action.kind === kind &&
+  action.target === target &&
+  action.cluster === scope.cluster &&
+  action.programId === scope.programId &&
+  action.wallet === scope.wallet;
+
+export const enqueueAction = (
+  kind: QueuedActionKind,
+  target: string,
+  scope: Pick<QueuedAction, 'cluster' | 'programId' | 'wallet'>,
+) => {
+  // Accepting or completing an order twice cannot succeed, so an unsent action for the same
+  // order is reused (and re-armed if it had failed, but not while its last send is unchecked).
+  // Creates are distinct even at equal amounts.
+  const existing =
+    kind === 'createOrder'
+      ? undefined
+      : actions.find(
+          (action) => action.status !== 'sent' && isSameAction(action, kind, target, scope),
+        );
+  if (existing) {
+    if (existing.status === 'failed') {
+      retryQueuedAction(existing.id);
+    }
+    return existing;
+  }
+  const action: QueuedAction = {
+    id: bs58.encode(nacl.randomBytes(12)),
+    kind,
+    target,
+    ...scope,
+    status: 'pending',
+    attempts: 0,
+    signature: null,
+    error: null,
+    queuedAt: Date.now(),
+    lastAttemptAt: null,
+  };
+  actions = [...actions, action];
+  emit();
+  return action;
+};
+
+export const cancelQueuedAction = (id: string) => {
+  actions = actions.filter((action) => action.id !== id || action.status === 'sending');
+  emit();
+};
+
+export const retryQueuedAction = (id: string) => {
+  updateAction(id, { status: 'pending', error: null, lastAttemptAt: null });
+};
+
+const isInScope = (action: QueuedAction, context: ActionQueueDrainContext) =>
+  action.cluster === context.cluster &&
+  action.programId === context.programId.toBase58() &&
+  action.wallet === context.publicKey.toBase58();
+
+const isDue = (action: QueuedAction) =>
+  action.status === 'pending' &&
+  (action.lastAttemptAt === null || Date.now() - action.lastAttemptAt >= RETRY_INTERVAL_MS);
+
+const buildTransaction = async (action: QueuedAction, context: ActionQueueDrainContext) => {
+  const { program, programId, publicKey } = context;
+  switch (action.kind) {
+    case 'createOrder':
+      return (await buildCreateOrderTransaction(program, programId, action.target, publicKey)).tx;
+    case 'acceptOrder':
+      return buildAcceptOrderTransaction(program, new PublicKey(action.target), publicKey);
+    case 'completeOrder':
+      return buildCompleteOrderTransaction(program, new PublicKey(action.target), publicKey);
+  }
+};
+
+const describeFailure = (err: unknown) => {
+  if (err instanceof UserRejectedError) {
+    return `Cancelled in ${err.wallet}.`;
+  }
+  if (err instanceof TransactionConfirmationError) {
+    return `Not confirmed: ${err.message} Check the signature before retrying.`;
+  }
+  const decoded = decodeProgramError(err);
+  if (decoded) {
+    return describeProgramError(decoded);
+  }
+  return err instanceof Error ? err.message : 'Send failed.';
+};
+
+const sendAction = async (action: QueuedAction, context: ActionQueueDrainContext) => {
+  const { connection, program, adapter, publicKey } = context;
+  // Each attempt rebuilds the transaction; signAndSend then fetches a fresh blockhash.
+  const tx = await buildTransaction(action, context);
+  await applyComputeBudget(connection, tx, publicKey);
+  const report = await simulateTransaction(
+    connection,
+    tx,
+    publicKey,
+    action.kind === 'createOrder'
+      ? []
+      : [
+          {
+            label: 'Order PDA',
+            address: new PublicKey(action.target),
+            decode: (data) => program.coder.accounts.decode('order', data),
+          },
+        ],
+  );
+  assertSimulationPasses(report);
+  return adapter.signAndSend(tx, connection, {
+    action: `${QUEUED_ACTION_LABELS[action.kind]} (queued)`,
+  });
+};
+
+// Sends due actions one at a time, in the order they were queued. Stops at the first RPC
+// failure so a still-flaky endpoint does not burn through every wallet prompt.
+export const drainActionQueue = async (context: ActionQueueDrainContext) => {
+  if (isDraining) {
+    return;
+  }
+  isDraining = true;
+  try {
+    for (const action of actions.filter((item) => isInScope(item, context) && isDue(item))) {
+      if (!actions.some((item) => item.id === action.id)) {
+        continue;
+      }
+      updateAction(action.id, {
+        status: 'sending',
+        attempts: action.attempts + 1,
+        lastAttemptAt: Date.now(),
+      });
+      try {
+        const signature = await sendAction(action, context);
+        updateAction(action.id, { status: 'sent', signature: signature || null, error: null });
+      } catch (err) {
+        if (err instanceof SubmissionUnknownError) {
+          updateAction(action.id, {
+            status: 'unknown',
+            signature: err.signature,
+            error: err.message,
+          });
+          break;
+        }
+        if (isRpcUnreachableError(err)) {
+          updateAction(action.id, {
+            status: 'pending',
+            error: 'RPC still unreachable. Will retry when it recovers.',
+          });
+          break;
+        }
+        updateAction(action.id, { status: 'failed', error: describeFailure(err) });
+      }
+    }
+  } finally {
+    isDraining = false;
+  }
+};
+
+const hasReachableEndpoint = () =>
+  getRpcPoolState().endpoints.some(
+    (endpoint) => endpoint.status === 'healthy' || endpoint.status === 'degraded',
+  );
+
+// Drains whenever the pool reports a reachable endpoint or the queue gains due work. The
+// first check runs immediately so actions persisted by a previous session go out on launch.
+export const startActionQueueDrainer = (context: ActionQueueDrainContext) => {
+  let active = true;
+
+  const check = () => {
+    if (
+      active &&
+      !isDraining &&
+      hasReachableEndpoint() &&
+      actions.some((item) => isInScope(item, context) && isDue(item))
+    ) {
+      drainActionQueue(context).catch(() => {});
+    }
+  };
+
+  const unsubscribePool = subscribeRpcPool(check);
+  const unsubscribeQueue = subscribeActionQueue(check);
+  check();
+
+  return () => {
+    active = false;
+    unsubscribePool();
+    unsubscribeQueue();
+  };
+};
+
+const parseStoredQueue = (raw: string): QueuedAction[] | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredActionQueue>;
+    if (parsed.version !== ACTION_QUEUE_STORAGE_VERSION || !Array.isArray(parsed.actions)) {
+      return null;
+    }
+    // An action caught mid-send may or may not have landed, so it needs a human decision.
+    return parsed.actions.map((action) =>
+      action.status === 'sending'
+        ? {
+            ...action,
+            status: 'unknown' as const,
+            error: 'Interrupted while sending. Check whether it landed before retrying.',
+          }
+        : action,
+    );
+  } catch {
+    return null;
+  }
+};
+
+export const startActionQueuePersistence = () => {
+  let active = true;
+  let hydrated = false;
+
+  readStorage(ACTION_QUEUE_STORAGE_KEY)
+    .then((raw) => {
+      const stored = raw ? parseStoredQueue(raw) : null;
+      if (active && stored) {
+        const current = new Set(actions.map((action) => action.id));
+        actions = [...stored.filter((action) => !current.has(action.id)), ...actions];
+        emit();
+      }
+    })
+    .catch(() => {})
+    .finally(() => {
+      hydrated = true;
+    });
+
+  const unsubscribe = subscribeActionQueue((next) => {
+    if (!active || !hydrated) {
+      return;
+    }
+    writeStorage(
+      ACTION_QUEUE_STORAGE_KEY,
+      JSON.stringify({ version: ACTION_QUEUE_STORAGE_VERSION, actions: next }),
+    ).catch(() => {});
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+};
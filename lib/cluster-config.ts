@@ -0,0 +1,254 @@
+import { clusterApiUrl, PublicKey } from '@solana/web3.js';
+
+import idlJson from '@/assets/idl/block_delivery.json';
+import { DEFAULT_CLUSTER, DEFAULT_SOLANA_RPC_URL } from '@/constants/solana';
+import { readStorage, writeStorage } from '@/lib/storage';
+
+export type ClusterName = 'localnet' | 'devnet' | 'testnet' | 'mainnet' | 'custom';
+
+export type ClusterSettings = {
+  rpcUrl: string;
+  fallbackRpcUrls: string[];
+  wsUrl: string;
+  programId: string;
+  lookupTableAddress: string;
+};
+
+export type ClusterConfig = {
+  cluster: ClusterName;
+  clusters: Record<ClusterName, ClusterSettings>;
+};
+
+export type ActiveCluster = ClusterSettings & {
+  name: ClusterName;
+};
+
+type StoredClusterConfig = ClusterConfig & {
+  version: number;
+};
+
+type ClusterConfigListener = (next: ClusterConfig) => void;
+type ClusterSwitchListener = (next: ClusterName, previous: ClusterName) => void;
+
+export const CLUSTER_NAMES: ClusterName[] = ['localnet', 'devnet', 'testnet', 'mainnet', 'custom'];
+
+const CLUSTER_CONFIG_STORAGE_VERSION = 1;
+const CLUSTER_CONFIG_STORAGE_KEY = 'block_delivery.cluster_config';
+const IDL_PROGRAM_ID = idlJson.address;
+
+const toClusterName = (value: string): ClusterName => {
+  if (value === 'mainnet-beta') {
+    return 'mainnet';
+  }
+  return CLUSTER_NAMES.includes(value as ClusterName) ? (value as ClusterName) : 'custom';
+};
+
+const defaultClusterSettings = (name: ClusterName): ClusterSettings => {
+  const rpcUrls: Record<ClusterName, string> = {
+    localnet: 'http://127.0.0.1:8899',
+    devnet: clusterApiUrl('devnet'),
+    testnet: clusterApiUrl('testnet'),
+    mainnet: clusterApiUrl('mainnet-beta'),
+    custom: 'http://127.0.0.1:8899',
+  };
+  const envCluster = toClusterName(DEFAULT_CLUSTER);
+  return {
+    rpcUrl: name === envCluster && DEFAULT_SOLANA_RPC_URL ? DEFAULT_SOLANA_RPC_URL : rpcUrls[name],
+    fallbackRpcUrls: [],
+    wsUrl: '',
+    programId: IDL_PROGRAM_ID,
+    lookupTableAddress: '',
+  };
+};
+
+const defaultConfig = (): ClusterConfig => ({
+  cluster: toClusterName(DEFAULT_CLUSTER),
+  clusters: Object.fromEntries(
+    CLUSTER_NAMES.map((name) => [name, defaultClusterSettings(name)]),
+  ) as Record<ClusterName, ClusterSettings>,
+});
+
+let config = defaultConfig();
+let listeners: ClusterConfigListener[] = [];
+let switchListeners: ClusterSwitchListener[] = [];
+
+const emit = () => {
+  listeners.forEach((listener) => listener(config));
+};
+
+export const deriveWebSocketUrl = (rpcUrl: string) => {
+  const url = new URL(rpcUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (url.port) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString();
+};
+
+const validateRpcUrl = (value: string, label: string) => {
+  let rpcUrl: URL;
+  try {
+    rpcUrl = new URL(value);
+  } catch {
+    throw new Error(`${label} is not a valid URL.`);
+  }
+  if (rpcUrl.protocol !== 'http:' && rpcUrl.protocol !== 'https:') {
+    throw new Error(`${label} must use http or https.`);
+  }
+};
+
+export const validateClusterSettings = (settings: ClusterSettings) => {
+  validateRpcUrl(settings.rpcUrl, 'RPC URL');
+  settings.fallbackRpcUrls.forEach((url) => validateRpcUrl(url, `Fallback RPC URL ${url}`));
+  if (settings.wsUrl) {
+    let wsUrl: URL;
+    try {
+      wsUrl = new URL(settings.wsUrl);
+    } catch {
+      throw new Error('WebSocket URL is not a valid URL.');
+    }
+    if (wsUrl.protocol !== 'ws:' && wsUrl.protocol !== 'wss:') {
+      throw new Error('WebSocket URL must use ws or wss.');
+    }
+  }
+  try {
+    new PublicKey(settings.programId);
+  } catch {
+    throw new Error('Program ID is not a valid public key.');
+  }
+  if (settings.lookupTableAddress) {
+    try {
+      new PublicKey(settings.lookupTableAddress);
+    } catch {
+      throw new Error('Lookup table address is not a valid public key.');
+    }
+  }
+};
+
+export const getClusterConfig = () => config;
+
+export const getActiveCluster = (): ActiveCluster => {
+  const settings = config.clusters[config.cluster];
+  return {
+    ...settings,
+    name: config.cluster,
+    wsUrl: settings.wsUrl || deriveWebSocketUrl(settings.rpcUrl),
+  };
+};
+
+export const subscribeClusterConfig = (listener: ClusterConfigListener) => {
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((item) => item !== listener);
+  };
+};
+
+export const subscribeClusterSwitch = (listener: ClusterSwitchListener) => {
+  switchListeners = [...switchListeners, listener];
+  return () => {
+    switchListeners = switchListeners.filter((item) => item !== listener);
+  };
+};
+
+export const setActiveCluster = (name: ClusterName) => {
+  const previous = config.cluster;
+  if (previous === name) {
+    return;
+  }
+  config = { ...config, cluster: name };
+  emit();
+  switchListeners.forEach((listener) => listener(name, previous));
+};
+
+export const updateClusterSettings = (name: ClusterName, next: Partial<ClusterSettings>) => {
+  const settings = {
+    ...config.clusters[name],
+    ...next,
+  };
+  const trimmed = {
+    rpcUrl: settings.rpcUrl.trim(),
+    fallbackRpcUrls: settings.fallbackRpcUrls.map((url) => url.trim()).filter(Boolean),
+    wsUrl: settings.wsUrl.trim(),
+    programId: settings.programId.trim(),
+    lookupTableAddress: settings.lookupTableAddress.trim(),
+  };
+  validateClusterSettings(trimmed);
+  config = { ...config, clusters: { ...config.clusters, [name]: trimmed } };
+  emit();
+};
+
+export const resetClusterSettings = (name: ClusterName) => {
+  config = { ...config, clusters: { ...config.clusters, [name]: defaultClusterSettings(name) } };
+  emit();
+};
+
+export const walletClusterParam = (name = config.cluster) =>
+  name === 'mainnet' ? 'mainnet-beta' : name;
+
+export const clusterChainId = (name = config.cluster): `solana:${string}` => `solana:${name}`;
+
+const parseStoredConfig = (raw: string): ClusterConfig | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredClusterConfig>;
+    if (
+      parsed.version !== CLUSTER_CONFIG_STORAGE_VERSION ||
+      !parsed.cluster ||
+      !CLUSTER_NAMES.includes(parsed.cluster) ||
+      !parsed.clusters
+    ) {
+      return null;
+    }
+    const defaults = defaultConfig();
+    const clusters = Object.fromEntries(
+      CLUSTER_NAMES.map((name) => {
+        const stored = parsed.clusters?.[name];
+        if (!stored) {
+          return [name, defaults.clusters[name]];
+        }
+        const merged = { ...defaults.clusters[name], ...stored };
+        try {
+          validateClusterSettings(merged);
+          return [name, merged];
+        } catch {
+          return [name, defaults.clusters[name]];
+        }
+      }),
+    ) as Record<ClusterName, ClusterSettings>;
+    return { cluster: parsed.cluster, clusters };
+  } catch {
+    return null;
+  }
+};
+
+export const startClusterConfigPersistence = () => {
+  let active = true;
+  let hydrated = false;
+
+  readStorage(CLUSTER_CONFIG_STORAGE_KEY)
+    .then((raw) => {
+      const stored = raw ? parseStoredConfig(raw) : null;
+      if (active && stored) {
+        config = stored;
+        emit();
+      }
+    })
+    .catch(() => {})
+    .finally(() => {
+      hydrated = true;
+    });
+
+  const unsubscribe = subscribeClusterConfig((next) => {
+    if (!active || !hydrated) {
+      return;
+    }
+    writeStorage(
+      CLUSTER_CONFIG_STORAGE_KEY,
+      JSON.stringify({ version: CLUSTER_CONFIG_STORAGE_VERSION, ...next }),
+    ).catch(() => {});
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+};
@@ -0,0 +1,23 @@
+import { subscribeClusterSwitch } from '@/lib/cluster-config';
+import { rejectAllDeeplinkRequests } from '@/lib/deeplink-requests';
+import { DEEPLINK_PROVIDERS } from '@/lib/deeplink-wallet';
+import { forgetAllDeeplinkSessions } from '@/lib/session-storage';
+import { clearOwnershipProof } from '@/lib/siws';
+import { forgetMwaAuthorization } from '@/lib/wallet-adapter';
+import { SessionExpiredError } from '@/lib/wallet-errors';
+
+export const invalidateClusterSessions = async () => {
+  Object.values(DEEPLINK_PROVIDERS).forEach((provider) =>
+    rejectAllDeeplinkRequests(
+      provider.name,
+      new SessionExpiredError(provider.name, 'Cluster changed.'),
+    ),
+  );
+  clearOwnershipProof();
+  await Promise.all([forgetAllDeeplinkSessions(), forgetMwaAuthorization()]);
+};
+
+export const startClusterSessionInvalidation = () =>
+  subscribeClusterSwitch(() => {
+    invalidateClusterSessions().catch(() => {});
+  });
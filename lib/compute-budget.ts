@@ -0,0 +1,122 @@
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import type { Connection, Transaction } from '@solana/web3.js';
+
+import { getPriorityFeeSettings } from '@/lib/priority-fee-settings';
+import type { PriorityFeeLevel, PriorityFeeSettings } from '@/lib/priority-fee-settings';
+
+export type ComputeBudget = {
+  unitLimit: number;
+  microLamports: number;
+};
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const FALLBACK_COMPUTE_UNITS = 200_000;
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+const LEVEL_PERCENTILES: Record<Exclude<PriorityFeeLevel, 'none' | 'custom'>, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.9,
+};
+
+// Floors keep a level meaningful on quiet clusters where every recent fee is zero.
+const LEVEL_FLOORS: Record<Exclude<PriorityFeeLevel, 'none' | 'custom'>, number> = {
+  low: 100,
+  medium: 1_000,
+  high: 10_000,
+};
+
+const withoutComputeBudget = (tx: Transaction) =>
+  tx.instructions.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId));
+
+const estimateComputeUnits = async (connection: Connection, tx: Transaction, payer: PublicKey) => {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+      ...withoutComputeBudget(tx),
+    ],
+  }).compileToV0Message();
+  try {
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      replaceRecentBlockhash: true,
+      sigVerify: false,
+    });
+    if (value.err || !value.unitsConsumed) {
+      return FALLBACK_COMPUTE_UNITS;
+    }
+    return Math.min(Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNITS);
+  } catch {
+    return FALLBACK_COMPUTE_UNITS;
+  }
+};
+
+const percentile = (values: number[], fraction: number) => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+// Fees are sampled for the accounts the transaction write-locks (orders, the counter), which
+// is where couriers racing for the same order actually contend.
+const estimateMicroLamports = async (
+  connection: Connection,
+  tx: Transaction,
+  settings: PriorityFeeSettings,
+) => {
+  if (settings.level === 'none') {
+    return 0;
+  }
+  if (settings.level === 'custom') {
+    return settings.customMicroLamports;
+  }
+  const writable = new Map<string, PublicKey>();
+  withoutComputeBudget(tx).forEach((ix) =>
+    ix.keys
+      .filter((key) => key.isWritable && !key.isSigner)
+      .forEach((key) => writable.set(key.pubkey.toBase58(), key.pubkey)),
+  );
+  try {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: Array.from(writable.values()),
+    });
+    const fees = recent.map((item) => item.prioritizationFee).filter((fee) => fee > 0);
+    return Math.max(
+      percentile(fees, LEVEL_PERCENTILES[settings.level]),
+      LEVEL_FLOORS[settings.level],
+    );
+  } catch {
+    return LEVEL_FLOORS[settings.level];
+  }
+};
+
+export const applyComputeBudget = async (
+  connection: Connection,
+  tx: Transaction,
+  payer: PublicKey,
+  settings = getPriorityFeeSettings(),
+): Promise<ComputeBudget> => {
+  const [unitLimit, microLamports] = await Promise.all([
+    estimateComputeUnits(connection, tx, payer),
+    estimateMicroLamports(connection, tx, settings),
+  ]);
+  const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit })];
+  if (microLamports > 0) {
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  tx.instructions = [...budget, ...withoutComputeBudget(tx)];
+  return { unitLimit, microLamports };
+};
+
+export const describeComputeBudget = ({ unitLimit, microLamports }: ComputeBudget) =>
+  microLamports > 0
+    ? `${unitLimit.toLocaleString()} CU at ${microLamports.toLocaleString()} micro-lamports/CU`
+    : `${unitLimit.toLocaleString()} CU, no priority fee`;
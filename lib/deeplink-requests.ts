@@ -0,0 +1,219 @@
+import * as Linking from 'expo-linking';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+import { captureDeeplinkOrigin, recordDeeplinkOutcome } from '@/lib/deeplink-returns';
+import type { DeeplinkOrigin, DeeplinkOutcomeStatus } from '@/lib/deeplink-returns';
+import { UserRejectedError } from '@/lib/wallet-errors';
+
+export type DeeplinkPayload = {
+  public_key?: string;
+  session?: string;
+  transaction?: string;
+  transactions?: string[];
+  signature?: string;
+};
+
+// What survives the app being killed while the wallet is open; the promise does not.
+export type DeeplinkRequestRecord = {
+  id: string;
+  wallet: string;
+  method: string;
+  origin: DeeplinkOrigin;
+  createdAt: number;
+  expiresAt: number;
+};
+
+type PendingRequest = DeeplinkRequestRecord & {
+  resolve: (payload: DeeplinkPayload) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type DeeplinkRequestOptions = {
+  action?: string | null;
+  timeoutMs?: number;
+};
+
+type DeeplinkRequestListener = () => void;
+
+export class DeeplinkTimeoutError extends Error {
+  constructor(wallet: string, method: string) {
+    super(`${wallet} did not respond to ${method} in time.`);
+    this.name = 'DeeplinkTimeoutError';
+  }
+}
+
+export class DeeplinkSecurityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeeplinkSecurityError';
+  }
+}
+
+export const DEEPLINK_REQUEST_TIMEOUT_MS = 3 * 60 * 1000;
+export const REQUEST_ID_PARAM = 'request_id';
+
+const SEEN_NONCE_LIMIT = 256;
+
+const pending = new Map<string, PendingRequest>();
+const seenNonces = new Set<string>();
+let requestListeners: DeeplinkRequestListener[] = [];
+
+const emitRequests = () => {
+  requestListeners.forEach((listener) => listener());
+};
+
+export const subscribeDeeplinkRequests = (listener: DeeplinkRequestListener) => {
+  requestListeners = [...requestListeners, listener];
+  return () => {
+    requestListeners = requestListeners.filter((item) => item !== listener);
+  };
+};
+
+export const getDeeplinkRequestRecords = (): DeeplinkRequestRecord[] =>
+  Array.from(pending.values()).map(({ id, wallet, method, origin, createdAt, expiresAt }) => ({
+    id,
+    wallet,
+    method,
+    origin,
+    createdAt,
+    expiresAt,
+  }));
+
+export const getSeenCallbackNonces = () => Array.from(seenNonces);
+
+const settle = (id: string) => {
+  const request = pending.get(id);
+  if (!request) {
+    return null;
+  }
+  clearTimeout(request.timer);
+  pending.delete(id);
+  emitRequests();
+  return request;
+};
+
+const recordOutcome = (
+  request: PendingRequest,
+  status: DeeplinkOutcomeStatus,
+  details: { signature?: string; message?: string } = {},
+) => {
+  recordDeeplinkOutcome({
+    requestId: request.id,
+    wallet: request.wallet,
+    method: request.method,
+    origin: request.origin,
+    status,
+    signature: details.signature ?? null,
+    message: details.message ?? null,
+    completedAt: Date.now(),
+  });
+};
+
+const expire = (id: string) => {
+  const request = settle(id);
+  if (request) {
+    const error = new DeeplinkTimeoutError(request.wallet, request.method);
+    recordOutcome(request, 'error', { message: error.message });
+    request.reject(error);
+  }
+};
+
+export const createDeeplinkRequest = (
+  wallet: string,
+  method: string,
+  { action = null, timeoutMs = DEEPLINK_REQUEST_TIMEOUT_MS }: DeeplinkRequestOptions = {},
+) => {
+  const id = bs58.encode(nacl.randomBytes(12));
+  const origin = captureDeeplinkOrigin(action);
+  const createdAt = Date.now();
+  const promise = new Promise<DeeplinkPayload>((resolve, reject) => {
+    const timer = setTimeout(() => expire(id), timeoutMs);
+    pending.set(id, {
+      id,
+      wallet,
+      method,
+      origin,
+      createdAt,
+      expiresAt: createdAt + timeoutMs,
+      resolve,
+      reject,
+      timer,
+    });
+  });
+  emitRequests();
+  return { id, promise };
+};
+
+// Requests restored after the OS killed the app have nobody awaiting them; their callback still
+// updates the wallet session and lands in the outcome list.
+export const restoreDeeplinkRequests = (records: DeeplinkRequestRecord[], nonces: string[]) => {
+  nonces.forEach((nonce) => claimCallbackNonce(nonce));
+  records
+    .filter((record) => record.expiresAt > Date.now() && !pending.has(record.id))
+    .forEach((record) => {
+      pending.set(record.id, {
+        ...record,
+        resolve: () => {},
+        reject: () => {},
+        timer: setTimeout(() => expire(record.id), record.expiresAt - Date.now()),
+      });
+    });
+  emitRequests();
+};
+
+export const findDeeplinkRequest = (id: string | null, wallet: string) => {
+  const request = id ? pending.get(id) : undefined;
+  if (!request || request.wallet !== wallet) {
+    return null;
+  }
+  return { id: request.id, method: request.method };
+};
+
+export const resolveDeeplinkRequest = (id: string, payload: DeeplinkPayload) => {
+  const request = settle(id);
+  if (request) {
+    recordOutcome(request, 'success', { signature: payload.signature });
+    request.resolve(payload);
+  }
+  return Boolean(request);
+};
+
+export const rejectDeeplinkRequest = (id: string, error: Error) => {
+  const request = settle(id);
+  if (request) {
+    const status = error instanceof UserRejectedError ? 'cancelled' : 'error';
+    recordOutcome(request, status, { message: error.message });
+    request.reject(error);
+  }
+  return Boolean(request);
+};
+
+export const rejectAllDeeplinkRequests = (wallet: string, error: Error) => {
+  Array.from(pending.values())
+    .filter((request) => request.wallet === wallet)
+    .forEach((request) => rejectDeeplinkRequest(request.id, error));
+};
+
+export const withRequestId = (redirectLink: string, id: string) => {
+  const separator = redirectLink.includes('?') ? '&' : '?';
+  return `${redirectLink}${separator}${REQUEST_ID_PARAM}=${encodeURIComponent(id)}`;
+};
+
+export const claimCallbackNonce = (nonce: string) => {
+  if (seenNonces.has(nonce)) {
+    return false;
+  }
+  seenNonces.add(nonce);
+  if (seenNonces.size > SEEN_NONCE_LIMIT) {
+    seenNonces.delete(seenNonces.values().next().value!);
+  }
+  emitRequests();
+  return true;
+};
+
+export const getDeeplinkRoute = (url: string) => {
+  const { hostname, path } = Linking.parse(url);
+  return (path || hostname || '').replace(/^\/+|\/+$/g, '');
+};
@@ -0,0 +1,64 @@
+export type DeeplinkOrigin = {
+  pathname: string;
+  action: string | null;
+};
+
+export type DeeplinkOutcomeStatus = 'success' | 'error' | 'cancelled';
+
+export type DeeplinkOutcome = {
+  requestId: string;
+  wallet: string;
+  method: string;
+  origin: DeeplinkOrigin;
+  status: DeeplinkOutcomeStatus;
+  signature: string | null;
+  message: string | null;
+  completedAt: number;
+};
+
+type OutcomeListener = (next: DeeplinkOutcome[]) => void;
+
+const OUTCOME_LIMIT = 20;
+const DEFAULT_RETURN_PATH = '/';
+
+let currentPathname = DEFAULT_RETURN_PATH;
+let outcomes: DeeplinkOutcome[] = [];
+let outcomeListeners: OutcomeListener[] = [];
+
+const emitOutcomes = () => {
+  outcomeListeners.forEach((listener) => listener(outcomes));
+};
+
+export const setDeeplinkPathname = (pathname: string) => {
+  currentPathname = pathname;
+};
+
+export const captureDeeplinkOrigin = (action: string | null): DeeplinkOrigin => ({
+  pathname: currentPathname,
+  action,
+});
+
+export const recordDeeplinkOutcome = (outcome: DeeplinkOutcome) => {
+  outcomes = [outcome, ...outcomes.filter((item) => item.requestId !== outcome.requestId)].slice(
+    0,
+    OUTCOME_LIMIT,
+  );
+  emitOutcomes();
+};
+
+export const getDeeplinkOutcomes = () => outcomes;
+
+export const subscribeDeeplinkOutcomes = (listener: OutcomeListener) => {
+  outcomeListeners = [...outcomeListeners, listener];
+  return () => {
+    outcomeListeners = outcomeListeners.filter((item) => item !== listener);
+  };
+};
+
+export const dismissDeeplinkOutcome = (requestId: string) => {
+  outcomes = outcomes.filter((item) => item.requestId !== requestId);
+  emitOutcomes();
+};
+
+export const getDeeplinkReturnPath = (requestId: string | null) =>
+  outcomes.find((item) => item.requestId === requestId)?.origin.pathname ?? DEFAULT_RETURN_PATH;
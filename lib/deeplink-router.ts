@@ -0,0 +1,53 @@
+import * as Linking from 'expo-linking';
+import { Platform } from 'react-native';
+
+import { REQUEST_ID_PARAM } from '@/lib/deeplink-requests';
+import { handleDeeplinkWalletCallbackUrl } from '@/lib/deeplink-wallet';
+import { waitForDeeplinkSessions } from '@/lib/session-storage';
+
+const HANDLED_CALLBACK_LIMIT = 20;
+
+const handled = new Map<string, Promise<boolean>>();
+
+const callbackKey = (url: string) => {
+  const requestId = Linking.parse(url).queryParams?.[REQUEST_ID_PARAM];
+  return typeof requestId === 'string' ? requestId : url;
+};
+
+// A callback reaches both the URL listener and its route screen; it is handled once, after the
+// persisted sessions and pending requests are back, and both callers share the result.
+export const handleDeeplinkUrl = (url: string) => {
+  const key = callbackKey(url);
+  const existing = handled.get(key);
+  if (existing) {
+    return existing;
+  }
+  const result = waitForDeeplinkSessions()
+    .then(() => handleDeeplinkWalletCallbackUrl(url))
+    .catch(() => false);
+  handled.set(key, result);
+  if (handled.size > HANDLED_CALLBACK_LIMIT) {
+    handled.delete(handled.keys().next().value!);
+  }
+  return result;
+};
+
+export const startDeeplinkListener = () => {
+  if (Platform.OS === 'web') {
+    return () => {};
+  }
+
+  const subscription = Linking.addEventListener('url', ({ url }) => {
+    handleDeeplinkUrl(url);
+  });
+
+  Linking.getInitialURL()
+    .then((url) => {
+      if (url) {
+        handleDeeplinkUrl(url);
+      }
+    })
+    .catch(() => {});
+
+  return () => subscription.remove();
+};
@@ -0,0 +1,296 @@
+import * as Linking from 'expo-linking';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { Buffer } from 'buffer';
+
+import {
+  claimCallbackNonce,
+  DeeplinkSecurityError,
+  findDeeplinkRequest,
+  getDeeplinkRoute,
+  rejectDeeplinkRequest,
+  REQUEST_ID_PARAM,
+  resolveDeeplinkRequest,
+} from '@/lib/deeplink-requests';
+import type { DeeplinkPayload } from '@/lib/deeplink-requests';
+import { InternalWalletError, toWalletError, walletErrorFromCode } from '@/lib/wallet-errors';
+
+export type DeeplinkProviderId = 'phantom' | 'solflare' | 'backpack';
+
+export type DeeplinkProvider = {
+  id: DeeplinkProviderId;
+  name: string;
+  baseUrl: string;
+  encryptionKeyParam: string;
+  connectRoute: string;
+  disconnectRoute: string;
+  errors: {
+    keyChanged: string;
+    walletChanged: string;
+    replayed: string;
+  };
+};
+
+export type DeeplinkWalletState = {
+  publicKey: string | null;
+  session: string | null;
+  encryptionPublicKey: string | null;
+  signature: string | null;
+  lastUrl: string | null;
+  error: string | null;
+};
+
+type DeeplinkWalletListener = (next: DeeplinkWalletState) => void;
+
+const APP_SCHEME = 'blockdeliveryapp';
+
+export const DEEPLINK_PROVIDERS: Record<DeeplinkProviderId, DeeplinkProvider> = {
+  phantom: {
+    id: 'phantom',
+    name: 'Phantom',
+    baseUrl: 'https://phantom.app',
+    encryptionKeyParam: 'phantom_encryption_public_key',
+    connectRoute: 'phantom-connect',
+    disconnectRoute: 'phantom-disconnect',
+    errors: {
+      keyChanged: 'Phantom encryption key changed mid-session.',
+      walletChanged: 'Phantom returned a different wallet mid-session.',
+      replayed: 'Rejected a replayed Phantom callback.',
+    },
+  },
+  solflare: {
+    id: 'solflare',
+    name: 'Solflare',
+    baseUrl: 'https://solflare.com',
+    encryptionKeyParam: 'solflare_encryption_public_key',
+    connectRoute: 'solflare-connect',
+    disconnectRoute: 'solflare-disconnect',
+    errors: {
+      keyChanged: 'Solflare encryption key changed mid-session.',
+      walletChanged: 'Solflare returned a different wallet mid-session.',
+      replayed: 'Rejected a replayed Solflare callback.',
+    },
+  },
+  backpack: {
+    id: 'backpack',
+    name: 'Backpack',
+    baseUrl: 'https://backpack.app',
+    encryptionKeyParam: 'wallet_encryption_public_key',
+    connectRoute: 'backpack-connect',
+    disconnectRoute: 'backpack-disconnect',
+    errors: {
+      keyChanged: 'Backpack encryption key changed mid-session.',
+      walletChanged: 'Backpack returned a different wallet mid-session.',
+      replayed: 'Rejected a replayed Backpack callback.',
+    },
+  },
+};
+
+export const DEEPLINK_PROVIDER_IDS = Object.keys(DEEPLINK_PROVIDERS) as DeeplinkProviderId[];
+
+const initialState: DeeplinkWalletState = {
+  publicKey: null,
+  session: null,
+  encryptionPublicKey: null,
+  signature: null,
+  lastUrl: null,
+  error: null,
+};
+
+const states = new Map<DeeplinkProviderId, DeeplinkWalletState>();
+const listeners = new Map<DeeplinkProviderId, DeeplinkWalletListener[]>();
+const keypairs = new Map<DeeplinkProviderId, nacl.BoxKeyPair>();
+
+export const isDeeplinkProviderId = (value: string): value is DeeplinkProviderId =>
+  value in DEEPLINK_PROVIDERS;
+
+export const deeplinkRedirectLink = (provider: DeeplinkProvider) =>
+  Linking.createURL(provider.connectRoute, { scheme: APP_SCHEME });
+
+export const deeplinkDisconnectLink = (provider: DeeplinkProvider) =>
+  Linking.createURL(provider.disconnectRoute, { scheme: APP_SCHEME });
+
+export const getDeeplinkWalletState = (id: DeeplinkProviderId) => states.get(id) ?? initialState;
+
+const setState = (id: DeeplinkProviderId, next: DeeplinkWalletState) => {
+  states.set(id, next);
+  (listeners.get(id) ?? []).forEach((listener) => listener(next));
+};
+
+export const subscribeDeeplinkWalletState = (
+  id: DeeplinkProviderId,
+  listener: DeeplinkWalletListener,
+) => {
+  listeners.set(id, [...(listeners.get(id) ?? []), listener]);
+  return () => {
+    listeners.set(
+      id,
+      (listeners.get(id) ?? []).filter((item) => item !== listener),
+    );
+  };
+};
+
+export const resetDeeplinkWalletState = (id: DeeplinkProviderId) => {
+  setState(id, { ...initialState, lastUrl: getDeeplinkWalletState(id).lastUrl });
+};
+
+export const restoreDeeplinkWalletSession = (
+  id: DeeplinkProviderId,
+  next: Pick<DeeplinkWalletState, 'publicKey' | 'session' | 'encryptionPublicKey'>,
+) => {
+  setState(id, { ...getDeeplinkWalletState(id), ...next, error: null });
+};
+
+export const getDeeplinkWalletKeypair = (id: DeeplinkProviderId) => keypairs.get(id) ?? null;
+
+export const setDeeplinkWalletKeypair = (id: DeeplinkProviderId, next: nacl.BoxKeyPair | null) => {
+  if (next) {
+    keypairs.set(id, next);
+  } else {
+    keypairs.delete(id);
+  }
+};
+
+const decryptPayload = (
+  id: DeeplinkProviderId,
+  encryptedPayload: string,
+  nonce: string,
+  walletPubkey: string,
+) => {
+  const keypair = keypairs.get(id);
+  if (!keypair) {
+    throw new Error('Missing keypair');
+  }
+
+  const sharedSecret = nacl.box.before(bs58.decode(walletPubkey), keypair.secretKey);
+  const decrypted = nacl.box.open.after(
+    bs58.decode(encryptedPayload),
+    bs58.decode(nonce),
+    sharedSecret,
+  );
+
+  if (!decrypted) {
+    throw new Error('Unable to decrypt payload');
+  }
+
+  return JSON.parse(Buffer.from(decrypted).toString('utf8')) as DeeplinkPayload;
+};
+
+const failRequest = (provider: DeeplinkProvider, requestId: string, error: Error) => {
+  setState(provider.id, { ...getDeeplinkWalletState(provider.id), error: error.message });
+  rejectDeeplinkRequest(requestId, error);
+};
+
+const handleDisconnectUrl = (
+  provider: DeeplinkProvider,
+  query: Linking.QueryParams,
+  requestId: string,
+) => {
+  if (typeof query.errorCode === 'string') {
+    const message = typeof query.errorMessage === 'string' ? query.errorMessage : 'Unknown error';
+    failRequest(provider, requestId, walletErrorFromCode(query.errorCode, message, provider.name));
+    return;
+  }
+
+  setState(provider.id, getDeeplinkWalletState(provider.id));
+  resolveDeeplinkRequest(requestId, {});
+};
+
+const checkSessionIdentity = (
+  provider: DeeplinkProvider,
+  payload: DeeplinkPayload,
+  walletPubkey: string,
+) => {
+  const state = getDeeplinkWalletState(provider.id);
+  if (!state.session) {
+    return null;
+  }
+  if (state.encryptionPublicKey && walletPubkey !== state.encryptionPublicKey) {
+    return new DeeplinkSecurityError(provider.errors.keyChanged);
+  }
+  if (state.publicKey && payload.public_key && payload.public_key !== state.publicKey) {
+    return new DeeplinkSecurityError(provider.errors.walletChanged);
+  }
+  return null;
+};
+
+export const handleDeeplinkWalletCallbackUrl = (url: string) => {
+  const route = getDeeplinkRoute(url);
+  const provider = Object.values(DEEPLINK_PROVIDERS).find(
+    (item) => item.connectRoute === route || item.disconnectRoute === route,
+  );
+  if (!provider) {
+    return false;
+  }
+
+  const query = Linking.parse(url).queryParams ?? {};
+  const request = findDeeplinkRequest(
+    typeof query[REQUEST_ID_PARAM] === 'string' ? query[REQUEST_ID_PARAM] : null,
+    provider.name,
+  );
+  const isDisconnect = route === provider.disconnectRoute;
+  if (!request || (request.method === 'disconnect') !== isDisconnect) {
+    return false;
+  }
+
+  states.set(provider.id, { ...getDeeplinkWalletState(provider.id), lastUrl: url });
+
+  if (isDisconnect) {
+    handleDisconnectUrl(provider, query, request.id);
+    return true;
+  }
+
+  if (typeof query.errorCode === 'string') {
+    const message = typeof query.errorMessage === 'string' ? query.errorMessage : 'Unknown error';
+    failRequest(provider, request.id, walletErrorFromCode(query.errorCode, message, provider.name));
+    return true;
+  }
+
+  const encryptedPayload = query.data ?? query.payload;
+  const nonce = query.nonce;
+  const walletPubkey = query[provider.encryptionKeyParam];
+
+  if (
+    typeof encryptedPayload !== 'string' ||
+    typeof nonce !== 'string' ||
+    typeof walletPubkey !== 'string'
+  ) {
+    setState(provider.id, getDeeplinkWalletState(provider.id));
+    rejectDeeplinkRequest(
+      request.id,
+      new InternalWalletError(provider.name, 'Invalid callback payload'),
+    );
+    return true;
+  }
+
+  if (!claimCallbackNonce(nonce)) {
+    failRequest(provider, request.id, new DeeplinkSecurityError(provider.errors.replayed));
+    return true;
+  }
+
+  let payload: DeeplinkPayload;
+  try {
+    payload = decryptPayload(provider.id, encryptedPayload, nonce, walletPubkey);
+  } catch (err) {
+    failRequest(provider, request.id, toWalletError(err, provider.name));
+    return true;
+  }
+
+  const securityError = checkSessionIdentity(provider, payload, walletPubkey);
+  if (securityError) {
+    failRequest(provider, request.id, securityError);
+    return true;
+  }
+
+  const state = getDeeplinkWalletState(provider.id);
+  setState(provider.id, {
+    ...state,
+    publicKey: payload.public_key ?? state.publicKey,
+    session: payload.session ?? state.session,
+    signature: payload.signature ?? state.signature,
+    encryptionPublicKey: walletPubkey,
+    error: null,
+  });
+  resolveDeeplinkRequest(request.id, payload);
+  return true;
+};
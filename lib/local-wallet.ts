@@ -0,0 +1,486 @@
+import bs58 from 'bs58';
+import { hmac } from '@noble/hashes/hmac';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha512 } from '@noble/hashes/sha2';
+import { mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+
+import { deleteStorage, readStorage, writeStorage } from '@/lib/storage';
+import {
+  addLocalAccount,
+  getLocalAccounts,
+  getSelectedLocalAccountId,
+  setLocalAccounts,
+  subscribeLocalAccounts,
+} from '@/lib/wallet-store';
+import type { LocalAccount } from '@/lib/wallet-store';
+
+const LOCAL_WALLET_STORAGE_VERSION = 3;
+const LOCAL_WALLET_STORAGE_KEY = 'block_delivery.local_wallet';
+const LOCAL_WALLET_LOCKOUT_KEY = 'block_delivery.local_wallet.lockout';
+const HARDENED_OFFSET = 0x80000000;
+const ED25519_SEED_KEY = new TextEncoder().encode('ed25519 seed');
+
+export const solanaDerivationPath = (account: number) => `m/44'/501'/${account}'/0'`;
+
+const parseDerivationPath = (path: string) => {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+  return segments.slice(1).map((segment) => {
+    const match = /^(\d+)'$/.exec(segment);
+    if (!match) {
+      throw new Error(`ed25519 derivation only supports hardened segments: ${path}`);
+    }
+    return Number(match[1]) + HARDENED_OFFSET;
+  });
+};
+
+const deriveEd25519Seed = (seed: Uint8Array, path: string) => {
+  let node = hmac(sha512, ED25519_SEED_KEY, seed);
+  for (const index of parseDerivationPath(path)) {
+    const data = new Uint8Array(37);
+    data.set(node.slice(0, 32), 1);
+    new DataView(data.buffer).setUint32(33, index);
+    node = hmac(sha512, node.slice(32), data);
+  }
+  return node.slice(0, 32);
+};
+
+export const normalizeMnemonic = (mnemonic: string) =>
+  mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+
+export const isMnemonic = (input: string) => /\s/.test(input.trim());
+
+export const keypairFromMnemonic = (mnemonic: string, account = 0) => {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(normalized, wordlist)) {
+    throw new Error('Invalid recovery phrase.');
+  }
+  if (!Number.isInteger(account) || account < 0 || account >= HARDENED_OFFSET) {
+    throw new Error('Invalid account index.');
+  }
+  const seed = mnemonicToSeedSync(normalized);
+  return Keypair.fromSeed(deriveEd25519Seed(seed, solanaDerivationPath(account)));
+};
+
+export const keypairFromSecretKey = (secretKey: string) => {
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(secretKey.trim());
+  } catch {
+    throw new Error('Secret key is not valid base58.');
+  }
+  if (bytes.length === 32) {
+    return Keypair.fromSeed(bytes);
+  }
+  if (bytes.length !== 64) {
+    throw new Error('Secret key must be 32 or 64 bytes.');
+  }
+  try {
+    return Keypair.fromSecretKey(bytes);
+  } catch {
+    throw new Error('Secret key does not match its public key.');
+  }
+};
+
+export const exportSecretKey = (keypair: Keypair) => bs58.encode(keypair.secretKey);
+
+export type LocalVaultStatus = 'empty' | 'unprotected' | 'locked' | 'unlocked';
+
+export type LocalVaultState = {
+  status: LocalVaultStatus;
+  publicKey: string | null;
+  failedAttempts: number;
+  lockedUntil: number | null;
+};
+
+type LocalVaultListener = (next: LocalVaultState) => void;
+
+type ScryptParams = {
+  N: number;
+  r: number;
+  p: number;
+};
+
+type StoredPlainWallet = {
+  version: 1;
+  secretKey: string;
+};
+
+type StoredEncryptedWallet = {
+  version: 2 | 3;
+  publicKey: string | null;
+  kdf: ScryptParams & { name: 'scrypt'; salt: string };
+  nonce: string;
+  ciphertext: string;
+};
+
+type StoredLockout = {
+  failedAttempts: number;
+  lockedUntil: number | null;
+};
+
+type VaultContents = {
+  selected: string | null;
+  accounts: { name: string; secretKey: string }[];
+};
+
+type VaultKey = {
+  key: Uint8Array;
+  salt: Uint8Array;
+  params: ScryptParams;
+};
+
+const SCRYPT_PARAMS: ScryptParams = { N: 2 ** 14, r: 8, p: 1 };
+const MIN_PASSCODE_LENGTH = 6;
+const MAX_FREE_ATTEMPTS = 5;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+let vaultState: LocalVaultState = {
+  status: 'empty',
+  publicKey: null,
+  failedAttempts: 0,
+  lockedUntil: null,
+};
+let vaultListeners: LocalVaultListener[] = [];
+let vaultKey: VaultKey | null = null;
+let lastSavedSecret: string | null = null;
+// A v1 entry keeps the secret key in plain storage until a passcode encrypts it in place.
+let hasPlaintextEntry = false;
+
+export const getLocalVaultState = () => vaultState;
+
+const updateVaultState = (next: Partial<LocalVaultState>) => {
+  vaultState = { ...vaultState, ...next };
+  vaultListeners.forEach((listener) => listener(vaultState));
+};
+
+export const subscribeLocalVaultState = (listener: LocalVaultListener) => {
+  vaultListeners = [...vaultListeners, listener];
+  return () => {
+    vaultListeners = vaultListeners.filter((item) => item !== listener);
+  };
+};
+
+const parseStoredWallet = (raw: string): StoredPlainWallet | StoredEncryptedWallet | null => {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.version === 1 && typeof parsed.secretKey === 'string') {
+      return parsed as StoredPlainWallet;
+    }
+    if (
+      (parsed?.version === 2 || parsed?.version === LOCAL_WALLET_STORAGE_VERSION) &&
+      (typeof parsed.publicKey === 'string' || parsed.publicKey === null) &&
+      parsed.kdf?.name === 'scrypt' &&
+      typeof parsed.kdf.salt === 'string' &&
+      typeof parsed.nonce === 'string' &&
+      typeof parsed.ciphertext === 'string'
+    ) {
+      return parsed as StoredEncryptedWallet;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+const readStoredWallet = async () => {
+  const raw = await readStorage(LOCAL_WALLET_STORAGE_KEY);
+  return raw ? parseStoredWallet(raw) : null;
+};
+
+const saveLockout = async (lockout: StoredLockout) => {
+  updateVaultState(lockout);
+  if (lockout.failedAttempts === 0) {
+    await deleteStorage(LOCAL_WALLET_LOCKOUT_KEY);
+    return;
+  }
+  await writeStorage(LOCAL_WALLET_LOCKOUT_KEY, JSON.stringify(lockout));
+};
+
+const loadLockout = async () => {
+  const raw = await readStorage(LOCAL_WALLET_LOCKOUT_KEY);
+  if (!raw) {
+    return;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredLockout>;
+    updateVaultState({
+      failedAttempts: typeof parsed.failedAttempts === 'number' ? parsed.failedAttempts : 0,
+      lockedUntil: typeof parsed.lockedUntil === 'number' ? parsed.lockedUntil : null,
+    });
+  } catch {
+    await deleteStorage(LOCAL_WALLET_LOCKOUT_KEY);
+  }
+};
+
+const lockoutDuration = (failedAttempts: number) =>
+  failedAttempts < MAX_FREE_ATTEMPTS
+    ? 0
+    : Math.min(LOCKOUT_BASE_MS * 2 ** (failedAttempts - MAX_FREE_ATTEMPTS), LOCKOUT_MAX_MS);
+
+const deriveVaultKey = async (
+  passcode: string,
+  salt = nacl.randomBytes(16),
+  params = SCRYPT_PARAMS,
+): Promise<VaultKey> => {
+  const key = await scryptAsync(passcode.normalize('NFKC'), salt, { ...params, dkLen: 32 });
+  return { key, salt, params };
+};
+
+const serializeAccounts = (accounts: LocalAccount[], selected: string | null) =>
+  JSON.stringify({
+    selected,
+    accounts: accounts.map(({ name, keypair }) => ({ name, secretKey: exportSecretKey(keypair) })),
+  } satisfies VaultContents);
+
+const parseVaultContents = (stored: StoredEncryptedWallet, plaintext: Uint8Array) => {
+  if (stored.version === 2) {
+    const keypair = Keypair.fromSecretKey(plaintext);
+    const id = keypair.publicKey.toBase58();
+    return { accounts: [{ id, name: 'Local 1', keypair }], selectedId: id };
+  }
+  const contents = JSON.parse(new TextDecoder().decode(plaintext)) as VaultContents;
+  const accounts = contents.accounts.map(({ name, secretKey }) => {
+    const keypair = keypairFromSecretKey(secretKey);
+    return { id: keypair.publicKey.toBase58(), name, keypair };
+  });
+  return { accounts, selectedId: contents.selected };
+};
+
+const encryptAccounts = (serialized: string, selected: string | null, vault: VaultKey) => {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const plaintext = new TextEncoder().encode(serialized);
+  return {
+    version: LOCAL_WALLET_STORAGE_VERSION,
+    publicKey: selected,
+    kdf: { name: 'scrypt', salt: bs58.encode(vault.salt), ...vault.params },
+    nonce: bs58.encode(nonce),
+    ciphertext: bs58.encode(nacl.secretbox(plaintext, nonce, vault.key)),
+  } satisfies StoredEncryptedWallet;
+};
+
+const decryptAccounts = async (stored: StoredEncryptedWallet, passcode: string) => {
+  const { salt, N, r, p } = stored.kdf;
+  const vault = await deriveVaultKey(passcode, bs58.decode(salt), { N, r, p });
+  const plaintext = nacl.secretbox.open(
+    bs58.decode(stored.ciphertext),
+    bs58.decode(stored.nonce),
+    vault.key,
+  );
+  if (!plaintext) {
+    return null;
+  }
+  return { ...parseVaultContents(stored, plaintext), vault };
+};
+
+const writeEncryptedAccounts = async (
+  accounts: LocalAccount[],
+  selected: string | null,
+  vault: VaultKey,
+) => {
+  const serialized = serializeAccounts(accounts, selected);
+  if (serialized === lastSavedSecret && !hasPlaintextEntry) {
+    return;
+  }
+  lastSavedSecret = serialized;
+  await writeStorage(
+    LOCAL_WALLET_STORAGE_KEY,
+    JSON.stringify(encryptAccounts(serialized, selected, vault)),
+  );
+  hasPlaintextEntry = false;
+};
+
+const assertPasscode = (passcode: string) => {
+  if (passcode.length < MIN_PASSCODE_LENGTH) {
+    throw new Error(`Passcode must be at least ${MIN_PASSCODE_LENGTH} characters.`);
+  }
+};
+
+const assertNotLockedOut = () => {
+  const { lockedUntil } = vaultState;
+  if (lockedUntil && lockedUntil > Date.now()) {
+    const seconds = Math.ceil((lockedUntil - Date.now()) / 1000);
+    throw new Error(`Too many wrong passcodes. Try again in ${seconds}s.`);
+  }
+};
+
+const verifyPasscode = async (stored: StoredEncryptedWallet, passcode: string) => {
+  assertNotLockedOut();
+  const result = await decryptAccounts(stored, passcode);
+  if (!result) {
+    const failedAttempts = vaultState.failedAttempts + 1;
+    const duration = lockoutDuration(failedAttempts);
+    await saveLockout({ failedAttempts, lockedUntil: duration ? Date.now() + duration : null });
+    throw new Error('Wrong passcode.');
+  }
+  if (vaultState.failedAttempts > 0) {
+    await saveLockout({ failedAttempts: 0, lockedUntil: null });
+  }
+  return result;
+};
+
+const requireEncryptedWallet = async () => {
+  const stored = await readStoredWallet();
+  if (!stored || stored.version === 1) {
+    throw new Error('No passcode-protected wallet is saved.');
+  }
+  return stored;
+};
+
+export const setLocalWalletPasscode = async (passcode: string) => {
+  const accounts = getLocalAccounts();
+  if (accounts.length === 0) {
+    throw new Error('Local wallet not created.');
+  }
+  assertPasscode(passcode);
+  const vault = await deriveVaultKey(passcode);
+  const selected = getSelectedLocalAccountId();
+  vaultKey = vault;
+  lastSavedSecret = null;
+  await writeEncryptedAccounts(accounts, selected, vault);
+  updateVaultState({ status: 'unlocked', publicKey: selected });
+};
+
+// New accounts are only added once they can be saved: into the open vault, or into a new one
+// sealed with `passcode`, so a funded account is never kept in memory only.
+export const addSavedLocalAccount = async (keypair: Keypair, name?: string, passcode?: string) => {
+  if (vaultState.status === 'locked') {
+    throw new Error('Unlock the saved wallet before adding accounts.');
+  }
+  if (!vaultKey) {
+    if (!passcode) {
+      throw new Error('Set a passcode so the account is saved on this device.');
+    }
+    assertPasscode(passcode);
+    vaultKey = await deriveVaultKey(passcode);
+    lastSavedSecret = null;
+  }
+  // The persistence subscription writes the vault, as for any other change while unlocked.
+  return addLocalAccount(keypair, name);
+};
+
+export const unlockLocalWallet = async (passcode: string) => {
+  const stored = await requireEncryptedWallet();
+  const { accounts, selectedId, vault } = await verifyPasscode(stored, passcode);
+  vaultKey = vault;
+  lastSavedSecret =
+    stored.version === LOCAL_WALLET_STORAGE_VERSION
+      ? serializeAccounts(accounts, selectedId)
+      : null;
+  setLocalAccounts(accounts, selectedId ?? accounts[0]?.id ?? null);
+};
+
+export const lockLocalWallet = () => {
+  if (vaultState.status !== 'unlocked') {
+    return;
+  }
+  vaultKey = null;
+  lastSavedSecret = null;
+  updateVaultState({ status: 'locked' });
+  setLocalAccounts([], null);
+};
+
+export const changeLocalWalletPasscode = async (currentPasscode: string, nextPasscode: string) => {
+  assertPasscode(nextPasscode);
+  const stored = await requireEncryptedWallet();
+  const { accounts, selectedId } = await verifyPasscode(stored, currentPasscode);
+  const vault = await deriveVaultKey(nextPasscode);
+  lastSavedSecret = null;
+  await writeEncryptedAccounts(accounts, selectedId, vault);
+  if (vaultState.status === 'unlocked') {
+    vaultKey = vault;
+  }
+};
+
+export const removeLocalWallet = async () => {
+  vaultKey = null;
+  lastSavedSecret = null;
+  updateVaultState({ status: 'empty', publicKey: null });
+  setLocalAccounts([], null);
+  await deleteStorage(LOCAL_WALLET_STORAGE_KEY);
+  await saveLockout({ failedAttempts: 0, lockedUntil: null });
+};
+
+const hydrateLocalWallet = async () => {
+  await loadLockout();
+  const raw = await readStorage(LOCAL_WALLET_STORAGE_KEY);
+  if (!raw) {
+    return;
+  }
+
+  const stored = parseStoredWallet(raw);
+  if (!stored) {
+    await deleteStorage(LOCAL_WALLET_STORAGE_KEY);
+    return;
+  }
+  if (getLocalAccounts().length > 0) {
+    return;
+  }
+
+  if (stored.version !== 1) {
+    updateVaultState({ status: 'locked', publicKey: stored.publicKey });
+    return;
+  }
+  hasPlaintextEntry = true;
+  const keypair = keypairFromSecretKey(stored.secretKey);
+  const id = keypair.publicKey.toBase58();
+  setLocalAccounts([{ id, name: 'Local 1', keypair }], id);
+};
+
+// Unprotected accounts live in memory only, so a plaintext entry that no longer matches them
+// is dropped instead of being restored on the next launch.
+const dropStalePlaintextEntry = async (accounts: LocalAccount[]) => {
+  const stored = await readStoredWallet();
+  if (stored?.version !== 1) {
+    hasPlaintextEntry = false;
+    return;
+  }
+  const storedId = keypairFromSecretKey(stored.secretKey).publicKey.toBase58();
+  if (!accounts.some((account) => account.id === storedId)) {
+    await deleteStorage(LOCAL_WALLET_STORAGE_KEY);
+    hasPlaintextEntry = false;
+  }
+};
+
+const handleLocalAccountsChange = async (accounts: LocalAccount[]) => {
+  const selected = getSelectedLocalAccountId();
+  if (vaultKey) {
+    await writeEncryptedAccounts(accounts, selected, vaultKey);
+    updateVaultState({ status: 'unlocked', publicKey: selected });
+    return;
+  }
+  if (vaultState.status === 'locked') {
+    return;
+  }
+  if (hasPlaintextEntry) {
+    await dropStalePlaintextEntry(accounts);
+  }
+  if (accounts.length > 0) {
+    updateVaultState({ status: 'unprotected', publicKey: selected });
+  } else if (vaultState.status === 'unprotected') {
+    updateVaultState({ status: 'empty', publicKey: null });
+  }
+};
+
+export const startLocalWalletPersistence = () => {
+  let active = true;
+
+  hydrateLocalWallet().catch(() => {});
+
+  const unsubscribe = subscribeLocalAccounts((next) => {
+    if (active) {
+      handleLocalAccountsChange(next).catch(() => {});
+    }
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+};
@@ -0,0 +1,129 @@
+import {
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import type { AddressLookupTableAccount, Connection } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+
+import { getActiveCluster } from '@/lib/cluster-config';
+import type { WalletAdapter } from '@/lib/wallet-adapter/types';
+
+// Extending with more than this per transaction risks exceeding the 1232-byte packet limit.
+const MAX_ADDRESSES_PER_EXTEND = 20;
+
+const tables = new Map<string, AddressLookupTableAccount>();
+
+export const fetchLookupTable = async (connection: Connection, address: PublicKey) => {
+  const cached = tables.get(address.toBase58());
+  if (cached) {
+    return cached;
+  }
+  const { value } = await connection.getAddressLookupTable(address);
+  if (value) {
+    tables.set(address.toBase58(), value);
+  }
+  return value;
+};
+
+// A missing, closed or unreachable table is not worth failing a send over; the message is
+// compiled without it and simply carries the full account keys.
+export const getActiveLookupTables = async (
+  connection: Connection,
+): Promise<AddressLookupTableAccount[]> => {
+  const { lookupTableAddress } = getActiveCluster();
+  if (!lookupTableAddress) {
+    return [];
+  }
+  try {
+    const table = await fetchLookupTable(connection, new PublicKey(lookupTableAddress));
+    return table?.isActive() ? [table] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Accounts nearly every block_delivery transaction references.
+export const commonProgramAccounts = (programId: PublicKey) => {
+  const [counterPda] = PublicKey.findProgramAddressSync([Buffer.from('order_counter')], programId);
+  return [programId, counterPda, SystemProgram.programId, ComputeBudgetProgram.programId];
+};
+
+const extendInstructions = (table: PublicKey, authority: PublicKey, addresses: PublicKey[]) => {
+  const chunks: PublicKey[][] = [];
+  for (let index = 0; index < addresses.length; index += MAX_ADDRESSES_PER_EXTEND) {
+    chunks.push(addresses.slice(index, index + MAX_ADDRESSES_PER_EXTEND));
+  }
+  return chunks.map((chunk) =>
+    AddressLookupTableProgram.extendLookupTable({
+      lookupTable: table,
+      authority,
+      payer: authority,
+      addresses: chunk,
+    }),
+  );
+};
+
+const requirePublicKey = (adapter: WalletAdapter) => {
+  if (!adapter.publicKey) {
+    throw new Error('Wallet not connected.');
+  }
+  return adapter.publicKey;
+};
+
+export const createLookupTable = async (
+  connection: Connection,
+  adapter: WalletAdapter,
+  addresses: PublicKey[],
+) => {
+  const authority = requirePublicKey(adapter);
+  const recentSlot = await connection.getSlot('finalized');
+  const [createIx, table] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer: authority,
+    recentSlot,
+  });
+  const [firstExtend, ...restExtends] = extendInstructions(table, authority, addresses);
+  const signature = await adapter.signAndSend(
+    new Transaction().add(createIx, ...(firstExtend ? [firstExtend] : [])),
+    connection,
+  );
+  for (const ix of restExtends) {
+    await adapter.signAndSend(new Transaction().add(ix), connection);
+  }
+  tables.delete(table.toBase58());
+  return { table, signature };
+};
+
+// Only addresses the table does not hold yet are appended; returns how many were added.
+export const extendLookupTable = async (
+  connection: Connection,
+  adapter: WalletAdapter,
+  table: PublicKey,
+  addresses: PublicKey[],
+) => {
+  const authority = requirePublicKey(adapter);
+  tables.delete(table.toBase58());
+  const { value } = await connection.getAddressLookupTable(table);
+  if (!value) {
+    throw new Error('Lookup table not found on this cluster.');
+  }
+  if (!value.state.authority?.equals(authority)) {
+    throw new Error('The connected wallet is not the authority of this lookup table.');
+  }
+  const missing = addresses.filter(
+    (address) => !value.state.addresses.some((existing) => existing.equals(address)),
+  );
+  for (const ix of extendInstructions(table, authority, missing)) {
+    await adapter.signAndSend(new Transaction().add(ix), connection);
+  }
+  tables.delete(table.toBase58());
+  return missing.length;
+};
+
+export const describeLookupTable = (table: AddressLookupTableAccount) => {
+  const status = table.isActive() ? 'active' : 'deactivated';
+  return `${table.state.addresses.length} addresses, ${status}`;
+};
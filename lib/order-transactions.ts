@@ -0,0 +1,46 @@
+import { BN } from '@coral-xyz/anchor';
+import type { Program } from '@coral-xyz/anchor';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+
+import type { BlockDelivery } from '@/assets/idl/block_delivery';
+
+// The order PDA comes from the counter's next ID, so it must be derived right before sending;
+// a queued create rebuilt later will usually land under a different ID.
+export const buildCreateOrderTransaction = async (
+  program: Program<BlockDelivery>,
+  programId: PublicKey,
+  amount: string,
+  customer: PublicKey,
+) => {
+  const [counterPda] = PublicKey.findProgramAddressSync([Buffer.from('order_counter')], programId);
+  const counterAccount = await program.account.orderCounter.fetch(counterPda);
+  const orderId = new BN(counterAccount.nextId);
+  const [orderPda] = PublicKey.findProgramAddressSync(
+    [Buffer.from('order'), orderId.toArrayLike(Buffer, 'le', 8)],
+    programId,
+  );
+
+  const tx = await program.methods
+    .createOrder(new BN(amount))
+    .accountsPartial({
+      counter: counterPda,
+      order: orderPda,
+      customer,
+      systemProgram: SystemProgram.programId,
+    })
+    .transaction();
+  return { tx, orderPda, orderId };
+};
+
+export const buildAcceptOrderTransaction = (
+  program: Program<BlockDelivery>,
+  order: PublicKey,
+  courier: PublicKey,
+) => program.methods.acceptOrder().accountsPartial({ order, courier }).transaction();
+
+export const buildCompleteOrderTransaction = (
+  program: Program<BlockDelivery>,
+  order: PublicKey,
+  courier: PublicKey,
+) => program.methods.completeOrder().accountsPartial({ order, courier }).transaction();
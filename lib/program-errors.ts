@@ -0,0 +1,215 @@
+import type { TransactionError } from '@solana/web3.js';
+
+import idlJson from '@/assets/idl/block_delivery.json';
+
+export type ProgramErrorSource = 'program' | 'anchor' | 'system';
+
+export type DecodedProgramError = {
+  source: ProgramErrorSource;
+  code: number | null;
+  name: string;
+  message: string;
+  nextStep: string;
+};
+
+type ErrorEntry = Omit<DecodedProgramError, 'source' | 'code'>;
+
+const PROGRAM_NEXT_STEPS: Record<string, string> = {
+  OrderNotOpen: 'Reload open orders; this one has already been taken or delivered.',
+  AlreadyAccepted: 'Another courier got there first. Reload open orders and pick another.',
+  CannotAcceptOwnOrder: 'Switch to a courier wallet; customers cannot deliver their own orders.',
+  OrderNotAccepted: 'Accept the order before completing it.',
+  UnauthorizedCourier: 'Connect the wallet that accepted this order to complete it.',
+};
+
+const PROGRAM_ERRORS = new Map<number, ErrorEntry>(
+  idlJson.errors.map((error) => [
+    error.code,
+    {
+      name: error.name,
+      message: `${error.msg}.`,
+      nextStep: PROGRAM_NEXT_STEPS[error.name] ?? 'Check the order and try again.',
+    },
+  ]),
+);
+
+const ANCHOR_ERRORS = new Map<number, ErrorEntry>([
+  [
+    101,
+    {
+      name: 'InstructionFallbackNotFound',
+      message: 'The program does not recognise this instruction.',
+      nextStep:
+        'The deployed program does not match the bundled IDL. Check the Program ID in Settings.',
+    },
+  ],
+  [
+    2000,
+    {
+      name: 'ConstraintMut',
+      message: 'An account that must be writable was passed read-only.',
+      nextStep: 'Rebuild the transaction and try again.',
+    },
+  ],
+  [
+    2006,
+    {
+      name: 'ConstraintSeeds',
+      message: 'An account address does not match the seeds the program expects.',
+      nextStep: 'Re-derive the order address on this cluster, or check the Program ID in Settings.',
+    },
+  ],
+  [
+    3001,
+    {
+      name: 'AccountDiscriminatorNotFound',
+      message: 'An account has no data where the program expected one of its own.',
+      nextStep: 'Check that the order address is correct for this cluster.',
+    },
+  ],
+  [
+    3002,
+    {
+      name: 'AccountDiscriminatorMismatch',
+      message: 'An account holds a different kind of data than expected.',
+      nextStep: 'Check that you entered an order address, not a wallet or counter address.',
+    },
+  ],
+  [
+    3007,
+    {
+      name: 'AccountOwnedByWrongProgram',
+      message: 'An account belongs to a different program.',
+      nextStep: 'Check that the order was created by this program and cluster.',
+    },
+  ],
+  [
+    3012,
+    {
+      name: 'AccountNotInitialized',
+      message: 'A required account has not been created yet.',
+      nextStep:
+        'Check the cluster and Program ID in Settings; the order counter or order may not exist here.',
+    },
+  ],
+]);
+
+const INSUFFICIENT_FUNDS: ErrorEntry = {
+  name: 'InsufficientFunds',
+  message: 'The wallet does not have enough SOL to pay for this transaction.',
+  nextStep: 'Fund the wallet (airdrop on devnet or localnet) and try again.',
+};
+
+// Custom codes below Anchor's range come from the System Program.
+const SYSTEM_ERRORS = new Map<number, ErrorEntry>([
+  [
+    0,
+    {
+      name: 'AccountAlreadyInUse',
+      message: 'The account being created already exists.',
+      nextStep: 'Another order took this ID. Try again to use the next one.',
+    },
+  ],
+  [1, INSUFFICIENT_FUNDS],
+]);
+
+const TRANSACTION_ERRORS: Record<string, ErrorEntry> = {
+  AccountNotFound: INSUFFICIENT_FUNDS,
+  InsufficientFundsForFee: INSUFFICIENT_FUNDS,
+  InsufficientFundsForRent: {
+    name: 'InsufficientFundsForRent',
+    message: 'An account would be left below the rent-exempt minimum.',
+    nextStep: 'Fund the wallet with a little more SOL and try again.',
+  },
+  BlockhashNotFound: {
+    name: 'BlockhashNotFound',
+    message: 'The transaction used a blockhash the cluster no longer recognises.',
+    nextStep: 'Try again; a fresh blockhash is fetched for every attempt.',
+  },
+};
+
+const fromCode = (code: number): DecodedProgramError | null => {
+  const program = PROGRAM_ERRORS.get(code);
+  if (program) {
+    return { source: 'program', code, ...program };
+  }
+  const anchor = ANCHOR_ERRORS.get(code);
+  if (anchor) {
+    return { source: 'anchor', code, ...anchor };
+  }
+  const system = SYSTEM_ERRORS.get(code);
+  if (system) {
+    return { source: 'system', code, ...system };
+  }
+  return null;
+};
+
+const fromTransactionError = (err: TransactionError): DecodedProgramError | null => {
+  if (typeof err === 'string') {
+    const entry = TRANSACTION_ERRORS[err];
+    return entry ? { source: 'system', code: null, ...entry } : null;
+  }
+  if (!err || typeof err !== 'object') {
+    return null;
+  }
+  const [kind, detail] = Object.entries(err)[0] ?? [];
+  if (kind === 'InstructionError' && Array.isArray(detail)) {
+    const [, reason] = detail;
+    if (reason && typeof reason === 'object' && typeof reason.Custom === 'number') {
+      return fromCode(reason.Custom);
+    }
+    if (reason === 'InsufficientFunds') {
+      return { source: 'system', code: null, ...INSUFFICIENT_FUNDS };
+    }
+    return null;
+  }
+  const entry = kind ? TRANSACTION_ERRORS[kind] : undefined;
+  return entry ? { source: 'system', code: null, ...entry } : null;
+};
+
+const fromText = (text: string): DecodedProgramError | null => {
+  const anchorNumber = text.match(/Error Number: (\d+)/);
+  if (anchorNumber) {
+    return fromCode(Number(anchorNumber[1]));
+  }
+  const custom = text.match(/custom program error: (0x[0-9a-f]+)/i);
+  if (custom) {
+    return fromCode(parseInt(custom[1], 16));
+  }
+  if (/insufficient (funds|lamports)|no record of a prior credit|AccountNotFound/i.test(text)) {
+    return { source: 'system', code: null, ...INSUFFICIENT_FUNDS };
+  }
+  return null;
+};
+
+// Accepts anything the send path can produce: a TransactionError from simulation or
+// confirmation, a SendTransactionError with logs, an AnchorError or a plain message.
+export const decodeProgramError = (
+  err: unknown,
+  logs: string[] = [],
+): DecodedProgramError | null => {
+  const fromLogs = logs.map(fromText).find(Boolean);
+  if (fromLogs) {
+    return fromLogs;
+  }
+  if (typeof err === 'string' || (err && typeof err === 'object' && !(err instanceof Error))) {
+    const decoded = fromTransactionError(err as TransactionError);
+    if (decoded) {
+      return decoded;
+    }
+  }
+  if (err instanceof Error) {
+    const errorLogs = (err as Error & { logs?: unknown }).logs;
+    if (Array.isArray(errorLogs)) {
+      const decoded = errorLogs.map((line) => fromText(String(line))).find(Boolean);
+      if (decoded) {
+        return decoded;
+      }
+    }
+    return fromText(err.message);
+  }
+  return null;
+};
+
+export const describeProgramError = (decoded: DecodedProgramError) =>
+  `${decoded.message} ${decoded.nextStep}`;
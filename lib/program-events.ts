@@ -0,0 +1,312 @@
+import { BorshCoder, EventParser } from '@coral-xyz/anchor';
+import type { Event, Idl } from '@coral-xyz/anchor';
+import type {
+  ConfirmedSignatureInfo,
+  Connection,
+  PublicKey,
+  TransactionError,
+} from '@solana/web3.js';
+
+import idlJson from '@/assets/idl/block_delivery.json';
+
+export type ProgramEvent = {
+  key: string;
+  signature: string;
+  logIndex: number;
+  slot: number;
+  event: Event;
+};
+
+export type ProgramEventTransport = 'connecting' | 'websocket' | 'polling';
+
+export type ProgramEventStreamStatus = {
+  transport: ProgramEventTransport;
+  reconnectAttempt: number;
+  error: string | null;
+};
+
+type ProgramEventStreamOptions = {
+  connection: Connection;
+  programId: PublicKey;
+  wsUrl: string;
+  onEvents: (events: ProgramEvent[]) => void;
+  onStatus: (status: ProgramEventStreamStatus) => void;
+};
+
+type LogsNotification = {
+  method?: string;
+  id?: number;
+  result?: unknown;
+  error?: { message?: string };
+  params?: {
+    result: {
+      context: { slot: number };
+      value: { signature: string; err: TransactionError | null; logs: string[] };
+    };
+  };
+};
+
+const EVENT_CODER = new BorshCoder(idlJson as Idl);
+
+const SUBSCRIBE_REQUEST_ID = 1;
+const CONNECT_TIMEOUT_MS = 10_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+const POLL_INTERVAL_MS = 5_000;
+const POLL_SIGNATURE_LIMIT = 20;
+const SEEN_EVENT_LIMIT = 500;
+
+export const INITIAL_EVENT_STREAM_STATUS: ProgramEventStreamStatus = {
+  transport: 'connecting',
+  reconnectAttempt: 0,
+  error: null,
+};
+
+export const describeEventStream = ({
+  transport,
+  reconnectAttempt,
+  error,
+}: ProgramEventStreamStatus) => {
+  if (transport === 'websocket') {
+    return 'Streaming over WebSocket.';
+  }
+  if (transport === 'connecting') {
+    return 'Connecting to the event stream...';
+  }
+  const retry = reconnectAttempt > 0 ? ` WebSocket reconnect attempt ${reconnectAttempt}.` : '';
+  const failure = error ? ` Last poll failed: ${error}` : '';
+  return `Polling every ${POLL_INTERVAL_MS / 1000}s.${retry}${failure}`;
+};
+
+// Streams block_delivery events over a raw `logsSubscribe` socket, which unlike
+// `connection.onLogs` lets us see when the socket fails. While it is down, recent program
+// transactions are polled instead; both paths feed one signature cursor and one de-duplication
+// set, so overlapping deliveries surface each event once.
+export const startProgramEventStream = ({
+  connection,
+  programId,
+  wsUrl,
+  onEvents,
+  onStatus,
+}: ProgramEventStreamOptions) => {
+  const parser = new EventParser(programId, EVENT_CODER);
+  const seen = new Set<string>();
+  let active = true;
+  let status = INITIAL_EVENT_STREAM_STATUS;
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollGeneration = 0;
+  let polling = false;
+  let cursor: string | undefined;
+
+  const setStatus = (next: Partial<ProgramEventStreamStatus>) => {
+    status = { ...status, ...next };
+    if (active) {
+      onStatus(status);
+    }
+  };
+
+  const ingest = (signature: string, slot: number, logs: string[]) => {
+    const fresh: ProgramEvent[] = [];
+    let logIndex = 0;
+    try {
+      for (const event of parser.parseLogs(logs)) {
+        const key = `${signature}:${logIndex}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          fresh.push({ key, signature, logIndex, slot, event });
+        }
+        logIndex += 1;
+      }
+    } catch {
+      // Logs truncated by the validator cannot be parsed; keep whatever decoded before that.
+    }
+    // Sets iterate in insertion order, so this drops the oldest keys first.
+    for (const key of seen) {
+      if (seen.size <= SEEN_EVENT_LIMIT) break;
+      seen.delete(key);
+    }
+    if (active && fresh.length > 0) {
+      onEvents(fresh);
+    }
+  };
+
+  // Pages backwards from the tip until the cursor, so a burst larger than one page is not lost.
+  const fetchSignaturesSince = async (until: string) => {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    while (active) {
+      const page = await connection.getSignaturesForAddress(
+        programId,
+        { until, before, limit: POLL_SIGNATURE_LIMIT },
+        'confirmed',
+      );
+      signatures.push(...page);
+      if (page.length < POLL_SIGNATURE_LIMIT) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+    return signatures;
+  };
+
+  const poll = async () => {
+    // The first poll only fixes a starting point; older history is not replayed.
+    if (!cursor) {
+      const [latest] = await connection.getSignaturesForAddress(
+        programId,
+        { limit: 1 },
+        'confirmed',
+      );
+      cursor = latest?.signature ?? cursor;
+      return;
+    }
+    const signatures = await fetchSignaturesSince(cursor);
+    for (const info of signatures.reverse()) {
+      if (!active) return;
+      if (!info.err) {
+        const tx = await connection.getTransaction(info.signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0,
+        });
+        if (tx?.meta?.logMessages) {
+          ingest(info.signature, info.slot, tx.meta.logMessages);
+        }
+      }
+      cursor = info.signature;
+    }
+  };
+
+  const startPolling = () => {
+    if (polling || !active) {
+      return;
+    }
+    polling = true;
+    const generation = ++pollGeneration;
+    setStatus({ transport: 'polling' });
+
+    const tick = async () => {
+      try {
+        await poll();
+        if (generation === pollGeneration) setStatus({ error: null });
+      } catch (err) {
+        if (generation === pollGeneration) {
+          setStatus({ error: err instanceof Error ? err.message : 'Polling failed.' });
+        }
+      }
+      if (active && generation === pollGeneration) {
+        pollTimer = setTimeout(tick, POLL_INTERVAL_MS);
+      }
+    };
+    tick();
+  };
+
+  const stopPolling = () => {
+    polling = false;
+    pollGeneration += 1;
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** status.reconnectAttempt, RECONNECT_MAX_MS);
+    setStatus({ reconnectAttempt: status.reconnectAttempt + 1 });
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    if (!active) {
+      return;
+    }
+    if (typeof WebSocket === 'undefined' || !wsUrl) {
+      startPolling();
+      return;
+    }
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(wsUrl);
+    } catch {
+      startPolling();
+      scheduleReconnect();
+      return;
+    }
+    socket = ws;
+    const connectTimer = setTimeout(() => ws.close(), CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      ws.send(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: SUBSCRIBE_REQUEST_ID,
+          method: 'logsSubscribe',
+          params: [{ mentions: [programId.toBase58()] }, { commitment: 'confirmed' }],
+        }),
+      );
+    };
+
+    ws.onmessage = (message) => {
+      let payload: LogsNotification;
+      try {
+        payload = JSON.parse(String(message.data));
+      } catch {
+        return;
+      }
+      if (payload.id === SUBSCRIBE_REQUEST_ID) {
+        if (typeof payload.result !== 'number') {
+          ws.close();
+          return;
+        }
+        clearTimeout(connectTimer);
+        const wasPolling = polling;
+        stopPolling();
+        setStatus({ transport: 'websocket', reconnectAttempt: 0, error: null });
+        // Catch up on anything that landed between the last poll and the subscription.
+        if (wasPolling) {
+          poll().catch(() => {});
+        }
+        return;
+      }
+      if (payload.method === 'logsNotification' && payload.params) {
+        const { context, value } = payload.params.result;
+        cursor = value.signature;
+        if (!value.err) {
+          ingest(value.signature, context.slot, value.logs);
+        }
+      }
+    };
+
+    // `onclose` always follows `onerror`, so recovery lives there.
+    ws.onerror = () => {};
+
+    ws.onclose = () => {
+      clearTimeout(connectTimer);
+      if (socket === ws) {
+        socket = null;
+      }
+      if (!active) {
+        return;
+      }
+      startPolling();
+      scheduleReconnect();
+    };
+  };
+
+  // Fix the polling cursor up front so a socket that drops before its first event leaves no gap.
+  poll().catch(() => {});
+  connect();
+
+  return () => {
+    active = false;
+    stopPolling();
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+    }
+    socket?.close();
+    socket = null;
+  };
+};
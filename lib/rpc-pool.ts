@@ -0,0 +1,244 @@
+import { Connection } from '@solana/web3.js';
+import type { Commitment } from '@solana/web3.js';
+
+import { deriveWebSocketUrl, getActiveCluster, subscribeClusterConfig } from '@/lib/cluster-config';
+
+export type RpcEndpointStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export type RpcEndpointHealth = {
+  url: string;
+  status: RpcEndpointStatus;
+  latencyMs: number | null;
+  slot: number | null;
+  slotLag: number | null;
+  score: number;
+  checkedAt: number | null;
+  error: string | null;
+};
+
+export type RpcPoolState = {
+  endpoints: RpcEndpointHealth[];
+  activeUrl: string;
+  isProbing: boolean;
+};
+
+type RpcPoolListener = (next: RpcPoolState) => void;
+
+const PROBE_INTERVAL_MS = 30_000;
+const PROBE_TIMEOUT_MS = 5_000;
+const DEGRADED_SLOT_LAG = 50;
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const createEndpoint = (url: string): RpcEndpointHealth => ({
+  url,
+  status: 'unknown',
+  latencyMs: null,
+  slot: null,
+  slotLag: null,
+  score: 0,
+  checkedAt: null,
+  error: null,
+});
+
+const configuredUrls = () => {
+  const cluster = getActiveCluster();
+  return Array.from(new Set([cluster.rpcUrl, ...cluster.fallbackRpcUrls]));
+};
+
+const initialState = (): RpcPoolState => {
+  const urls = configuredUrls();
+  return { endpoints: urls.map(createEndpoint), activeUrl: urls[0], isProbing: false };
+};
+
+let state = initialState();
+let listeners: RpcPoolListener[] = [];
+
+const setState = (next: RpcPoolState) => {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+};
+
+export const getRpcPoolState = () => state;
+
+export const subscribeRpcPool = (listener: RpcPoolListener) => {
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((item) => item !== listener);
+  };
+};
+
+// Healthy endpoints win, then the one closest to the tip, then the fastest. The primary URL
+// starts at 100 so an unprobed pool still prefers it.
+const scoreEndpoint = (endpoint: Omit<RpcEndpointHealth, 'score'>, index: number) => {
+  if (endpoint.status === 'down') {
+    return 0;
+  }
+  if (endpoint.status === 'unknown') {
+    return index === 0 ? 100 : 50;
+  }
+  const lagPenalty = Math.min(endpoint.slotLag ?? 0, 100);
+  const latencyPenalty = Math.min((endpoint.latencyMs ?? PROBE_TIMEOUT_MS) / 50, 100);
+  const statusBonus = endpoint.status === 'healthy' ? 200 : 0;
+  return statusBonus + 200 - lagPenalty - latencyPenalty;
+};
+
+const rankEndpoints = (endpoints: RpcEndpointHealth[]) =>
+  [...endpoints].sort((a, b) => b.score - a.score);
+
+const pickActiveUrl = (endpoints: RpcEndpointHealth[], current: string) => {
+  const [best] = rankEndpoints(endpoints);
+  const active = endpoints.find((item) => item.url === current);
+  if (!best || (active && active.score >= best.score)) {
+    return current;
+  }
+  return best.url;
+};
+
+const withScores = (endpoints: Omit<RpcEndpointHealth, 'score'>[]) =>
+  endpoints.map((endpoint, index) => ({ ...endpoint, score: scoreEndpoint(endpoint, index) }));
+
+const rpcRequest = async (url: string, method: string) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method }),
+      signal: controller.signal,
+    });
+    const data = await response.json();
+    if (data?.error) {
+      throw new Error(data.error.message ?? `${method} failed`);
+    }
+    return data?.result;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const probeEndpoint = async (endpoint: RpcEndpointHealth) => {
+  const startedAt = Date.now();
+  try {
+    const [health, slot] = await Promise.all([
+      rpcRequest(endpoint.url, 'getHealth'),
+      rpcRequest(endpoint.url, 'getSlot'),
+    ]);
+    return {
+      ...endpoint,
+      status: health === 'ok' ? ('healthy' as const) : ('degraded' as const),
+      latencyMs: Date.now() - startedAt,
+      slot: typeof slot === 'number' ? slot : null,
+      checkedAt: Date.now(),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      ...endpoint,
+      status: 'down' as const,
+      latencyMs: null,
+      slot: null,
+      slotLag: null,
+      checkedAt: Date.now(),
+      error: err instanceof Error ? err.message : 'Unreachable',
+    };
+  }
+};
+
+export const probeRpcPool = async () => {
+  const urls = state.endpoints.map((item) => item.url);
+  setState({ ...state, isProbing: true });
+  const probed = await Promise.all(state.endpoints.map(probeEndpoint));
+  const current = state.endpoints.map((item) => item.url);
+  if (current.join('\n') !== urls.join('\n')) {
+    // The cluster changed while probing; the results belong to the old pool.
+    return;
+  }
+  const tip = Math.max(0, ...probed.map((item) => item.slot ?? 0));
+  const endpoints = withScores(
+    probed.map((item) => {
+      const slotLag = item.slot === null ? null : tip - item.slot;
+      const lagging = item.status === 'healthy' && slotLag !== null && slotLag > DEGRADED_SLOT_LAG;
+      return { ...item, slotLag, status: lagging ? ('degraded' as const) : item.status };
+    }),
+  );
+  setState({ endpoints, activeUrl: pickActiveUrl(endpoints, state.activeUrl), isProbing: false });
+};
+
+const markEndpointDown = (url: string, error: string) => {
+  const endpoints = withScores(
+    state.endpoints.map((item) =>
+      item.url === url ? { ...item, status: 'down' as const, checkedAt: Date.now(), error } : item,
+    ),
+  );
+  setState({ ...state, endpoints, activeUrl: pickActiveUrl(endpoints, state.activeUrl) });
+};
+
+// Routes every JSON-RPC call to the best endpoint and moves on to the next one when a call
+// fails in a way another node could serve (network errors, rate limits, 5xx).
+const poolFetch: typeof fetch = async (_input, init) => {
+  const ordered = [
+    state.activeUrl,
+    ...rankEndpoints(state.endpoints)
+      .map((item) => item.url)
+      .filter((url) => url !== state.activeUrl),
+  ];
+  let lastError: unknown = null;
+  for (const url of ordered) {
+    try {
+      const response = await fetch(url, init);
+      if (!TRANSIENT_STATUS_CODES.includes(response.status)) {
+        return response;
+      }
+      lastError = new Error(`${response.status} ${response.statusText}`);
+      markEndpointDown(url, `HTTP ${response.status}`);
+    } catch (err) {
+      lastError = err;
+      markEndpointDown(url, err instanceof Error ? err.message : 'Request failed');
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error('All RPC endpoints failed.');
+};
+
+// The configured WebSocket URL belongs to the primary RPC URL; fallbacks use their derived one.
+export const webSocketUrlFor = (url: string, primaryWsUrl: string) =>
+  url === getActiveCluster().rpcUrl ? primaryWsUrl : deriveWebSocketUrl(url);
+
+export const createRpcConnection = (
+  url: string,
+  primaryWsUrl: string,
+  commitment: Commitment = 'confirmed',
+) =>
+  new Connection(url, {
+    commitment,
+    wsEndpoint: webSocketUrlFor(url, primaryWsUrl),
+    fetch: poolFetch,
+    disableRetryOnRateLimit: true,
+  });
+
+export const startRpcPoolMonitor = () => {
+  let active = true;
+
+  const probe = () => {
+    if (active) {
+      probeRpcPool().catch(() => {});
+    }
+  };
+
+  const unsubscribe = subscribeClusterConfig(() => {
+    const urls = configuredUrls();
+    if (urls.join('\n') === state.endpoints.map((item) => item.url).join('\n')) {
+      return;
+    }
+    setState(initialState());
+    probe();
+  });
+  const interval = setInterval(probe, PROBE_INTERVAL_MS);
+  probe();
+
+  return () => {
+    active = false;
+    clearInterval(interval);
+    unsubscribe();
+  };
+};
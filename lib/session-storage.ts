@@ -0,0 +1,268 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import bs58 from 'bs58';
+
+import {
+  getDeeplinkRequestRecords,
+  getSeenCallbackNonces,
+  restoreDeeplinkRequests,
+  subscribeDeeplinkRequests,
+} from '@/lib/deeplink-requests';
+import type { DeeplinkRequestRecord } from '@/lib/deeplink-requests';
+import {
+  DEEPLINK_PROVIDER_IDS,
+  getDeeplinkWalletKeypair,
+  getDeeplinkWalletState,
+  resetDeeplinkWalletState,
+  restoreDeeplinkWalletSession,
+  setDeeplinkWalletKeypair,
+  subscribeDeeplinkWalletState,
+} from '@/lib/deeplink-wallet';
+import type { DeeplinkProviderId } from '@/lib/deeplink-wallet';
+
+const SESSION_STORAGE_VERSION = 1;
+
+type StoredSession = {
+  version: number;
+  publicKey: string;
+  session: string;
+  encryptionPublicKey: string;
+  boxPublicKey: string;
+  boxSecretKey: string;
+};
+
+type StoredBoxKeypair = {
+  publicKey: string;
+  secretKey: string;
+};
+
+// Requests in flight when the app was backgrounded, plus the dapp keypair of any connect that
+// has no session yet, so the wallet's callback can still be decrypted after a cold start.
+type StoredPendingRequests = {
+  version: number;
+  requests: DeeplinkRequestRecord[];
+  nonces: string[];
+  keypairs: Partial<Record<DeeplinkProviderId, StoredBoxKeypair>>;
+};
+
+const PENDING_REQUESTS_STORAGE_KEY = 'block_delivery.session.pending';
+
+let lastSaved: Partial<Record<DeeplinkProviderId, string>> = {};
+let lastSavedPending: string | null = null;
+let markHydrated = () => {};
+// Route screens mount before the root layout starts persistence, so this settles only once
+// hydration has actually run (or there is nothing to hydrate).
+const hydration = new Promise<void>((resolve) => {
+  markHydrated = resolve;
+});
+
+const storageKey = (kind: DeeplinkProviderId) => `block_delivery.session.${kind}`;
+
+const isStorageAvailable = () => Platform.OS !== 'web';
+
+const toStoredSession = (kind: DeeplinkProviderId): StoredSession | null => {
+  const { publicKey, session, encryptionPublicKey } = getDeeplinkWalletState(kind);
+  const keypair = getDeeplinkWalletKeypair(kind);
+  if (!publicKey || !session || !encryptionPublicKey || !keypair) {
+    return null;
+  }
+  return {
+    version: SESSION_STORAGE_VERSION,
+    publicKey,
+    session,
+    encryptionPublicKey,
+    boxPublicKey: bs58.encode(keypair.publicKey),
+    boxSecretKey: bs58.encode(keypair.secretKey),
+  };
+};
+
+const parseStoredSession = (raw: string): StoredSession | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredSession>;
+    if (
+      parsed.version !== SESSION_STORAGE_VERSION ||
+      typeof parsed.publicKey !== 'string' ||
+      typeof parsed.session !== 'string' ||
+      typeof parsed.encryptionPublicKey !== 'string' ||
+      typeof parsed.boxPublicKey !== 'string' ||
+      typeof parsed.boxSecretKey !== 'string'
+    ) {
+      return null;
+    }
+    return parsed as StoredSession;
+  } catch {
+    return null;
+  }
+};
+
+const saveDeeplinkSession = async (kind: DeeplinkProviderId) => {
+  const stored = toStoredSession(kind);
+  if (!stored) {
+    return;
+  }
+  const raw = JSON.stringify(stored);
+  if (raw === lastSaved[kind]) {
+    return;
+  }
+  lastSaved = { ...lastSaved, [kind]: raw };
+  await SecureStore.setItemAsync(storageKey(kind), raw);
+};
+
+const hydrateDeeplinkSession = async (kind: DeeplinkProviderId) => {
+  const raw = await SecureStore.getItemAsync(storageKey(kind));
+  if (!raw) {
+    return;
+  }
+
+  const stored = parseStoredSession(raw);
+  if (!stored) {
+    await SecureStore.deleteItemAsync(storageKey(kind));
+    return;
+  }
+  if (getDeeplinkWalletState(kind).session) {
+    return;
+  }
+
+  lastSaved = { ...lastSaved, [kind]: raw };
+  setDeeplinkWalletKeypair(kind, {
+    publicKey: bs58.decode(stored.boxPublicKey),
+    secretKey: bs58.decode(stored.boxSecretKey),
+  });
+  restoreDeeplinkWalletSession(kind, {
+    publicKey: stored.publicKey,
+    session: stored.session,
+    encryptionPublicKey: stored.encryptionPublicKey,
+  });
+};
+
+const toStoredPendingRequests = (): StoredPendingRequests | null => {
+  const requests = getDeeplinkRequestRecords();
+  if (requests.length === 0) {
+    return null;
+  }
+  const keypairs: StoredPendingRequests['keypairs'] = {};
+  DEEPLINK_PROVIDER_IDS.forEach((kind) => {
+    const keypair = getDeeplinkWalletKeypair(kind);
+    if (keypair && !getDeeplinkWalletState(kind).session) {
+      keypairs[kind] = {
+        publicKey: bs58.encode(keypair.publicKey),
+        secretKey: bs58.encode(keypair.secretKey),
+      };
+    }
+  });
+  return {
+    version: SESSION_STORAGE_VERSION,
+    requests,
+    nonces: getSeenCallbackNonces(),
+    keypairs,
+  };
+};
+
+const parseStoredPendingRequests = (raw: string): StoredPendingRequests | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredPendingRequests>;
+    if (
+      parsed.version !== SESSION_STORAGE_VERSION ||
+      !Array.isArray(parsed.requests) ||
+      !Array.isArray(parsed.nonces) ||
+      typeof parsed.keypairs !== 'object' ||
+      parsed.keypairs === null
+    ) {
+      return null;
+    }
+    return parsed as StoredPendingRequests;
+  } catch {
+    return null;
+  }
+};
+
+const savePendingRequests = async () => {
+  const stored = toStoredPendingRequests();
+  const raw = stored ? JSON.stringify(stored) : null;
+  if (raw === lastSavedPending) {
+    return;
+  }
+  lastSavedPending = raw;
+  if (raw) {
+    await SecureStore.setItemAsync(PENDING_REQUESTS_STORAGE_KEY, raw);
+  } else {
+    await SecureStore.deleteItemAsync(PENDING_REQUESTS_STORAGE_KEY);
+  }
+};
+
+// Runs after the sessions are restored so a saved session keypair wins over a pending one.
+const hydratePendingRequests = async () => {
+  const raw = await SecureStore.getItemAsync(PENDING_REQUESTS_STORAGE_KEY);
+  if (!raw) {
+    return;
+  }
+  const stored = parseStoredPendingRequests(raw);
+  if (!stored) {
+    await SecureStore.deleteItemAsync(PENDING_REQUESTS_STORAGE_KEY);
+    return;
+  }
+  lastSavedPending = raw;
+  DEEPLINK_PROVIDER_IDS.forEach((kind) => {
+    const keypair = stored.keypairs[kind];
+    if (keypair && !getDeeplinkWalletKeypair(kind)) {
+      setDeeplinkWalletKeypair(kind, {
+        publicKey: bs58.decode(keypair.publicKey),
+        secretKey: bs58.decode(keypair.secretKey),
+      });
+    }
+  });
+  restoreDeeplinkRequests(stored.requests, stored.nonces);
+};
+
+// Callbacks that cold-start the app must wait for this, or their request looks unknown.
+export const waitForDeeplinkSessions = () => hydration;
+
+export const forgetDeeplinkSession = async (kind: DeeplinkProviderId) => {
+  setDeeplinkWalletKeypair(kind, null);
+  resetDeeplinkWalletState(kind);
+  lastSaved = { ...lastSaved, [kind]: undefined };
+  if (isStorageAvailable()) {
+    await SecureStore.deleteItemAsync(storageKey(kind));
+  }
+};
+
+export const forgetAllDeeplinkSessions = async () => {
+  await Promise.all(DEEPLINK_PROVIDER_IDS.map((kind) => forgetDeeplinkSession(kind)));
+};
+
+export const startDeeplinkSessionPersistence = () => {
+  if (!isStorageAvailable()) {
+    markHydrated();
+    return () => {};
+  }
+
+  let active = true;
+  let hydrated = false;
+
+  Promise.all(DEEPLINK_PROVIDER_IDS.map((kind) => hydrateDeeplinkSession(kind)))
+    .then(() => hydratePendingRequests())
+    .catch(() => {})
+    .finally(() => {
+      hydrated = true;
+      markHydrated();
+    });
+
+  const unsubscribers = DEEPLINK_PROVIDER_IDS.map((kind) =>
+    subscribeDeeplinkWalletState(kind, () => {
+      if (active) {
+        saveDeeplinkSession(kind).catch(() => {});
+      }
+    }),
+  );
+  const unsubscribeRequests = subscribeDeeplinkRequests(() => {
+    if (active && hydrated) {
+      savePendingRequests().catch(() => {});
+    }
+  });
+
+  return () => {
+    active = false;
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    unsubscribeRequests();
+  };
+};
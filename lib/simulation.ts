@@ -0,0 +1,152 @@
+import { PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import type { AccountInfo, Connection, Transaction, TransactionError } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+
+import { decodeProgramError, describeProgramError } from '@/lib/program-errors';
+
+export type WatchedAccount = {
+  label: string;
+  address: PublicKey;
+  decode?: (data: Buffer) => unknown;
+};
+
+export type AccountSnapshot = {
+  lamports: number;
+  data: unknown;
+} | null;
+
+export type AccountChange = {
+  label: string;
+  address: string;
+  before: AccountSnapshot;
+  after: AccountSnapshot;
+};
+
+export type SimulationVerdict = 'pass' | 'fail' | 'inconclusive';
+
+export type SimulationReport = {
+  verdict: SimulationVerdict;
+  error: TransactionError | null;
+  detail: string | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  accountChanges: AccountChange[];
+};
+
+export class SimulationFailedError extends Error {
+  readonly report: SimulationReport;
+
+  constructor(report: SimulationReport) {
+    super(report.detail ?? 'Simulation failed.');
+    this.name = 'SimulationFailedError';
+    this.report = report;
+  }
+}
+
+// Anchor decodes into BN, PublicKey and `{ variant: {} }` enums; flatten them so the report
+// renders as plain JSON.
+const toDisplayValue = (value: unknown): unknown => {
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  if (value && typeof value === 'object') {
+    if ('toArrayLike' in value && 'toString' in value) {
+      return String(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(toDisplayValue);
+    }
+    const entries = Object.entries(value);
+    if (entries.length === 1 && JSON.stringify(entries[0][1]) === '{}') {
+      return entries[0][0];
+    }
+    return Object.fromEntries(entries.map(([key, item]) => [key, toDisplayValue(item)]));
+  }
+  return value;
+};
+
+const snapshot = (
+  account: WatchedAccount,
+  info: Pick<AccountInfo<Buffer>, 'lamports' | 'data'> | null,
+): AccountSnapshot => {
+  if (!info) {
+    return null;
+  }
+  if (!account.decode || info.data.length === 0) {
+    return { lamports: info.lamports, data: `${info.data.length} bytes` };
+  }
+  try {
+    return { lamports: info.lamports, data: toDisplayValue(account.decode(info.data)) };
+  } catch {
+    return { lamports: info.lamports, data: `${info.data.length} bytes (undecodable)` };
+  }
+};
+
+export const simulateTransaction = async (
+  connection: Connection,
+  tx: Transaction,
+  payer: PublicKey,
+  watch: WatchedAccount[] = [],
+): Promise<SimulationReport> => {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: tx.instructions,
+  }).compileToV0Message();
+  const addresses = watch.map((account) => account.address);
+
+  try {
+    const [before, { value }] = await Promise.all([
+      connection.getMultipleAccountsInfo(addresses, 'confirmed'),
+      connection.simulateTransaction(new VersionedTransaction(message), {
+        replaceRecentBlockhash: true,
+        sigVerify: false,
+        commitment: 'confirmed',
+        accounts: { encoding: 'base64', addresses: addresses.map((key) => key.toBase58()) },
+      }),
+    ]);
+    const accountChanges = watch.map((account, index) => {
+      const after = value.accounts?.[index];
+      return {
+        label: account.label,
+        address: account.address.toBase58(),
+        before: snapshot(account, before[index]),
+        after: snapshot(
+          account,
+          after ? { lamports: after.lamports, data: Buffer.from(after.data[0], 'base64') } : null,
+        ),
+      };
+    });
+    const programError = value.err ? decodeProgramError(value.err, value.logs ?? []) : null;
+    return {
+      verdict: value.err ? 'fail' : 'pass',
+      error: value.err,
+      detail: programError
+        ? describeProgramError(programError)
+        : value.err
+          ? `Simulation failed: ${JSON.stringify(value.err)}`
+          : null,
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed ?? null,
+      // A failed simulation reports no post-state, so there is nothing to compare.
+      accountChanges: value.err ? [] : accountChanges,
+    };
+  } catch (err) {
+    return {
+      verdict: 'inconclusive',
+      error: null,
+      detail: err instanceof Error ? err.message : 'Simulation unavailable.',
+      logs: [],
+      unitsConsumed: null,
+      accountChanges: [],
+    };
+  }
+};
+
+// Only a definite failure blocks the send; an unreachable simulator should not stop a user
+// whose transaction may well be fine.
+export const assertSimulationPasses = (report: SimulationReport) => {
+  if (report.verdict === 'fail') {
+    throw new SimulationFailedError(report);
+  }
+};
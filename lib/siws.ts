@@ -0,0 +1,183 @@
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import type { PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+
+import { DAPP_URL } from '@/constants/solana';
+import { clusterChainId } from '@/lib/cluster-config';
+import type { WalletAdapter, WalletRequestOptions } from '@/lib/wallet-adapter';
+
+export type SignInMessageFields = {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+};
+
+export type OwnershipProof = {
+  address: string;
+  message: string;
+  signature: string;
+  issuedAt: string;
+  expirationTime: string;
+};
+
+// What the app asked for; a signed message is only accepted if it matches.
+export type SignInExpectation = {
+  domain: string;
+  nonce: string;
+  now?: number;
+};
+
+type OwnershipListener = (next: OwnershipProof | null) => void;
+
+export class SignInVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignInVerificationError';
+  }
+}
+
+const SIGN_IN_TTL_MS = 10 * 60 * 1000;
+const SIGN_IN_PATTERN =
+  /^(.+) wants you to sign in with your Solana account:\n(.+)\n\n([\s\S]*)\n\nURI: (.+)\nVersion: (.+)\nChain ID: (.+)\nNonce: (.+)\nIssued At: (.+)\nExpiration Time: (.+)$/;
+
+let proof: OwnershipProof | null = null;
+let listeners: OwnershipListener[] = [];
+
+const emit = () => {
+  listeners.forEach((listener) => listener(proof));
+};
+
+const getDomain = () => {
+  try {
+    return new URL(DAPP_URL).host;
+  } catch {
+    return DAPP_URL;
+  }
+};
+
+export const createSignInMessage = (fields: SignInMessageFields) =>
+  [
+    `${fields.domain} wants you to sign in with your Solana account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expirationTime}`,
+  ].join('\n');
+
+export const parseSignInMessage = (message: string): SignInMessageFields | null => {
+  const match = SIGN_IN_PATTERN.exec(message);
+  if (!match) {
+    return null;
+  }
+  const [, domain, address, statement, uri, version, chainId, nonce, issuedAt, expirationTime] =
+    match;
+  return { domain, address, statement, uri, version, chainId, nonce, issuedAt, expirationTime };
+};
+
+// Checks the signature and that the message is the one this app just asked for: same domain,
+// wallet and nonce, and not yet expired.
+export const verifySignInMessage = (
+  message: string,
+  signature: Uint8Array,
+  publicKey: PublicKey,
+  expected: SignInExpectation,
+) => {
+  if (!nacl.sign.detached.verify(Buffer.from(message, 'utf8'), signature, publicKey.toBytes())) {
+    throw new SignInVerificationError('Signature does not match the connected wallet.');
+  }
+  const fields = parseSignInMessage(message);
+  if (!fields) {
+    throw new SignInVerificationError('Signed message is not a sign-in message.');
+  }
+  if (fields.domain !== expected.domain) {
+    throw new SignInVerificationError(
+      `Sign-in message is for ${fields.domain}, not ${expected.domain}.`,
+    );
+  }
+  if (fields.address !== publicKey.toBase58()) {
+    throw new SignInVerificationError('Sign-in message names a different wallet.');
+  }
+  if (fields.nonce !== expected.nonce) {
+    throw new SignInVerificationError('Sign-in nonce does not match this request.');
+  }
+  const expiresAt = Date.parse(fields.expirationTime);
+  if (Number.isNaN(expiresAt) || expiresAt <= (expected.now ?? Date.now())) {
+    throw new SignInVerificationError('Sign-in message has expired.');
+  }
+  return fields;
+};
+
+export const getOwnershipProof = () => proof;
+
+export const isOwnershipProofValid = (next: OwnershipProof | null, publicKey: PublicKey | null) =>
+  Boolean(
+    next &&
+    publicKey &&
+    next.address === publicKey.toBase58() &&
+    Date.parse(next.expirationTime) > Date.now(),
+  );
+
+export const clearOwnershipProof = () => {
+  proof = null;
+  emit();
+};
+
+export const subscribeOwnershipProof = (listener: OwnershipListener) => {
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((item) => item !== listener);
+  };
+};
+
+export const signInWithSolana = async (
+  adapter: WalletAdapter,
+  statement: string,
+  options?: WalletRequestOptions,
+) => {
+  const publicKey = adapter.publicKey;
+  if (!publicKey) {
+    throw new Error('Wallet not connected.');
+  }
+
+  const domain = getDomain();
+  const nonce = bs58.encode(nacl.randomBytes(16));
+  const issuedAt = new Date().toISOString();
+  const expirationTime = new Date(Date.parse(issuedAt) + SIGN_IN_TTL_MS).toISOString();
+  const message = createSignInMessage({
+    domain,
+    address: publicKey.toBase58(),
+    statement,
+    uri: DAPP_URL,
+    version: '1',
+    chainId: clusterChainId(),
+    nonce,
+    issuedAt,
+    expirationTime,
+  });
+
+  const signature = await adapter.signMessage(Buffer.from(message, 'utf8'), options);
+  verifySignInMessage(message, signature, publicKey, { domain, nonce });
+
+  proof = {
+    address: publicKey.toBase58(),
+    message,
+    signature: bs58.encode(signature),
+    issuedAt,
+    expirationTime,
+  };
+  emit();
+  return proof;
+};
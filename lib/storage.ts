@@ -0,0 +1,25 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+export const readStorage = async (key: string) => {
+  if (Platform.OS === 'web') {
+    return globalThis.localStorage?.getItem(key) ?? null;
+  }
+  return SecureStore.getItemAsync(key);
+};
+
+export const writeStorage = async (key: string, raw: string) => {
+  if (Platform.OS === 'web') {
+    globalThis.localStorage?.setItem(key, raw);
+    return;
+  }
+  await SecureStore.setItemAsync(key, raw);
+};
+
+export const deleteStorage = async (key: string) => {
+  if (Platform.OS === 'web') {
+    globalThis.localStorage?.removeItem(key);
+    return;
+  }
+  await SecureStore.deleteItemAsync(key);
+};
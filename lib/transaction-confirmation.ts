@@ -0,0 +1,192 @@
+import type {
+  BlockhashWithExpiryBlockHeight,
+  Connection,
+  TransactionConfirmationStatus,
+  TransactionError,
+} from '@solana/web3.js';
+
+import { decodeProgramError, describeProgramError } from '@/lib/program-errors';
+
+export type ConfirmationResult =
+  | {
+      status: 'confirmed';
+      signature: string;
+      slot: number;
+      confirmationStatus: TransactionConfirmationStatus;
+    }
+  | { status: 'failed'; signature: string; slot: number; err: TransactionError }
+  | { status: 'expired'; signature: string; lastValidBlockHeight: number }
+  | { status: 'timeout'; signature: string };
+
+export type ConfirmationStatus = ConfirmationResult['status'];
+
+export type ConfirmTransactionOptions = {
+  // Signed wire bytes to resend while waiting. Omit when the wallet submitted the transaction.
+  rawTransaction?: Uint8Array;
+  lastValidBlockHeight?: number | null;
+  timeoutMs?: number;
+};
+
+const POLL_INTERVAL_MS = 1_000;
+const REBROADCAST_INTERVAL_MS = 2_000;
+const DEFAULT_TIMEOUT_MS = 90_000;
+const MAX_REMEMBERED_BLOCKHASHES = 32;
+
+export class TransactionConfirmationError extends Error {
+  readonly result: Exclude<ConfirmationResult, { status: 'confirmed' }>;
+
+  constructor(result: Exclude<ConfirmationResult, { status: 'confirmed' }>) {
+    super(describeConfirmation(result));
+    this.name = 'TransactionConfirmationError';
+    this.result = result;
+  }
+}
+
+// Thrown when the submit call itself fails without an answer from the RPC. The node may have
+// accepted the transaction before the connection dropped, so it is checked by signature rather
+// than sent again.
+export class SubmissionUnknownError extends Error {
+  readonly signature: string;
+  readonly error: unknown;
+
+  constructor(signature: string, error: unknown) {
+    const detail = error instanceof Error ? ` (${error.message})` : '';
+    super(
+      `The RPC did not answer after the transaction was sent${detail}. It may still land; check the signature before retrying.`,
+    );
+    this.name = 'SubmissionUnknownError';
+    this.signature = signature;
+    this.error = error;
+  }
+}
+
+export type SubmissionResult =
+  { status: 'submitted'; signature: string } | { status: 'failed'; error: unknown };
+
+// Thrown when part of a batch never reached the RPC. Both arrays line up with the batch, so
+// the signatures that did go out are still confirmed and reported.
+export class BatchSubmissionError extends Error {
+  readonly submissions: SubmissionResult[];
+  readonly confirmations: (ConfirmationResult | null)[];
+
+  constructor(submissions: SubmissionResult[], confirmations: (ConfirmationResult | null)[]) {
+    const failures = submissions.filter((item) => item.status === 'failed');
+    const [first] = failures;
+    const reason =
+      first?.status === 'failed' && first.error instanceof Error ? ` ${first.error.message}` : '';
+    super(`${failures.length} of ${submissions.length} transactions were not submitted.${reason}`);
+    this.name = 'BatchSubmissionError';
+    this.submissions = submissions;
+    this.confirmations = confirmations;
+  }
+}
+
+export const describeConfirmation = (result: ConfirmationResult) => {
+  switch (result.status) {
+    case 'confirmed':
+      return `Transaction ${result.confirmationStatus} in slot ${result.slot}.`;
+    case 'failed': {
+      const decoded = decodeProgramError(result.err);
+      return decoded
+        ? `Transaction failed on chain. ${describeProgramError(decoded)}`
+        : `Transaction failed on chain: ${JSON.stringify(result.err)}`;
+    }
+    case 'expired':
+      return 'Transaction expired before it landed. Its blockhash is no longer valid; try again.';
+    case 'timeout':
+      return 'Transaction was not confirmed in time. It may still land; check the explorer.';
+  }
+};
+
+// Blockhash -> last valid block height, recorded when a transaction is prepared so the engine
+// can tell an expired transaction from a slow one after a wallet has re-encoded it.
+const blockhashExpiry = new Map<string, number>();
+
+export const rememberBlockhash = (latest: BlockhashWithExpiryBlockHeight) => {
+  blockhashExpiry.delete(latest.blockhash);
+  blockhashExpiry.set(latest.blockhash, latest.lastValidBlockHeight);
+  if (blockhashExpiry.size > MAX_REMEMBERED_BLOCKHASHES) {
+    const [oldest] = blockhashExpiry.keys();
+    blockhashExpiry.delete(oldest);
+  }
+};
+
+export const lastValidBlockHeightFor = (blockhash: string | null | undefined) =>
+  blockhash ? (blockhashExpiry.get(blockhash) ?? null) : null;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readStatus = async (
+  connection: Connection,
+  signature: string,
+  searchTransactionHistory = false,
+): Promise<ConfirmationResult | null> => {
+  const { value } = await connection.getSignatureStatuses([signature], {
+    searchTransactionHistory,
+  });
+  const info = value[0];
+  if (!info) {
+    return null;
+  }
+  if (info.err) {
+    return { status: 'failed', signature, slot: info.slot, err: info.err };
+  }
+  if (info.confirmationStatus === 'confirmed' || info.confirmationStatus === 'finalized') {
+    return {
+      status: 'confirmed',
+      signature,
+      slot: info.slot,
+      confirmationStatus: info.confirmationStatus,
+    };
+  }
+  return null;
+};
+
+export const confirmTransaction = async (
+  connection: Connection,
+  signature: string,
+  {
+    rawTransaction,
+    lastValidBlockHeight = null,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+  }: ConfirmTransactionOptions = {},
+): Promise<ConfirmationResult> => {
+  const startedAt = Date.now();
+  let lastBroadcastAt = startedAt;
+
+  while (Date.now() - startedAt < timeoutMs) {
+    try {
+      const result = await readStatus(connection, signature);
+      if (result) {
+        return result;
+      }
+
+      if (lastValidBlockHeight !== null) {
+        const blockHeight = await connection.getBlockHeight('confirmed');
+        if (blockHeight > lastValidBlockHeight) {
+          // The blockhash is dead, so the transaction can no longer land; one last history
+          // lookup catches a confirmation that raced the expiry.
+          return (
+            (await readStatus(connection, signature, true)) ?? {
+              status: 'expired',
+              signature,
+              lastValidBlockHeight,
+            }
+          );
+        }
+      }
+
+      if (rawTransaction && Date.now() - lastBroadcastAt >= REBROADCAST_INTERVAL_MS) {
+        lastBroadcastAt = Date.now();
+        connection
+          .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+          .catch(() => {});
+      }
+    } catch {
+      // RPC hiccups are retried on the next poll; the pool fails over between endpoints.
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  return { status: 'timeout', signature };
+};
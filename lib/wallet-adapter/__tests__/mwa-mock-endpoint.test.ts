@@ -0,0 +1,97 @@
+import { p256 } from '@noble/curves/nist';
+import { sha256 } from '@noble/hashes/sha2';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import nacl from 'tweetnacl';
+
+import {
+  mockEndpointTransact,
+  MwaMockEndpointError,
+  openMockEndpointSession,
+} from '@/lib/wallet-adapter/mwa-mock-endpoint';
+
+const identity = { name: 'Block Delivery', uri: 'https://example.com' };
+
+const associationToken = (publicKey: Uint8Array) =>
+  Buffer.from(publicKey)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+describe('mockEndpointTransact', () => {
+  it('authorizes and signs messages over the encrypted session', async () => {
+    const message = new Uint8Array([1, 2, 3]);
+
+    const { address, signed } = await mockEndpointTransact(async (wallet) => {
+      const { accounts } = await wallet.authorize({ identity, chain: 'solana:devnet' });
+      const [payload] = await wallet.signMessages({
+        addresses: [accounts[0].address],
+        payloads: [message],
+      });
+      return { address: accounts[0].address, signed: payload };
+    });
+
+    const publicKey = Buffer.from(address, 'base64');
+    expect(signed.slice(0, message.length)).toEqual(message);
+    expect(nacl.sign.detached.verify(message, signed.slice(message.length), publicKey)).toBe(true);
+  });
+
+  it('signs a legacy transaction and hands it back as a Transaction', async () => {
+    const signed = await mockEndpointTransact(async (wallet) => {
+      const { accounts } = await wallet.authorize({ identity, chain: 'solana:devnet' });
+      const feePayer = new PublicKey(Buffer.from(accounts[0].address, 'base64'));
+      const tx = new Transaction().add(
+        SystemProgram.transfer({ fromPubkey: feePayer, toPubkey: feePayer, lamports: 1 }),
+      );
+      tx.feePayer = feePayer;
+      tx.recentBlockhash = Keypair.generate().publicKey.toBase58();
+      const [result] = await wallet.signTransactions({ transactions: [tx] });
+      return result;
+    });
+
+    expect(signed).toBeInstanceOf(Transaction);
+    expect(signed.verifySignatures()).toBe(true);
+  });
+
+  it('reuses an auth token in a later session and rejects an unknown one', async () => {
+    const authToken = await mockEndpointTransact(
+      async (wallet) => (await wallet.authorize({ identity, chain: 'solana:devnet' })).auth_token,
+    );
+
+    await expect(
+      mockEndpointTransact((wallet) =>
+        wallet.authorize({ identity, chain: 'solana:devnet', auth_token: authToken }),
+      ),
+    ).resolves.toMatchObject({ auth_token: authToken });
+    await expect(
+      mockEndpointTransact((wallet) =>
+        wallet.authorize({ identity, chain: 'solana:devnet', auth_token: 'stale' }),
+      ),
+    ).rejects.toMatchObject({ code: -1 });
+  });
+
+  it('refuses to sign before the session is authorized', async () => {
+    await expect(
+      mockEndpointTransact((wallet) =>
+        wallet.signMessages({ addresses: [], payloads: [new Uint8Array([1])] }),
+      ),
+    ).rejects.toMatchObject({ code: -1 });
+  });
+});
+
+describe('openMockEndpointSession', () => {
+  it('closes the session when HELLO_REQ is not signed by the association key', async () => {
+    const association = p256.utils.randomPrivateKey();
+    const impostor = p256.utils.randomPrivateKey();
+    const socket = openMockEndpointSession(associationToken(p256.getPublicKey(association, false)));
+    const sessionKey = p256.getPublicKey(p256.utils.randomPrivateKey(), false);
+    const signature = p256.sign(sha256(sessionKey), impostor).toCompactRawBytes();
+
+    const error = await socket.send(Buffer.concat([sessionKey, signature])).catch((err) => err);
+
+    expect(error).toBeInstanceOf(MwaMockEndpointError);
+    expect(error.code).toBe('ERROR_SESSION_CLOSED');
+    await expect(socket.send(new Uint8Array(0))).rejects.toThrow('Session is closed.');
+  });
+});
@@ -0,0 +1,99 @@
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { BatchSubmissionError, SubmissionUnknownError } from '@/lib/transaction-confirmation';
+import { sendSignedTransaction, sendSignedTransactions } from '@/lib/wallet-adapter/transaction';
+
+const payer = Keypair.generate();
+
+const signedTransfer = (lamports: number) => {
+  const tx = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payer.publicKey, lamports }),
+  );
+  tx.feePayer = payer.publicKey;
+  tx.recentBlockhash = Keypair.generate().publicKey.toBase58();
+  tx.sign(payer);
+  return tx;
+};
+
+const fakeConnection = (submits: (() => Promise<string>)[]) => {
+  let index = 0;
+  return {
+    sendRawTransaction: jest.fn(() => submits[index++]()),
+    getSignatureStatuses: jest.fn(async () => ({
+      context: { slot: 7 },
+      value: [{ slot: 7, confirmations: null, err: null, confirmationStatus: 'confirmed' }],
+    })),
+    getBlockHeight: jest.fn(async () => 0),
+  };
+};
+
+describe('sendSignedTransactions', () => {
+  it('confirms every transaction in the batch', async () => {
+    const connection = fakeConnection([async () => 'sig-1', async () => 'sig-2']);
+
+    const results = await sendSignedTransactions(connection as unknown as Connection, [
+      signedTransfer(1),
+      signedTransfer(2),
+    ]);
+
+    expect(results.map((result) => [result.status, result.signature])).toEqual([
+      ['confirmed', 'sig-1'],
+      ['confirmed', 'sig-2'],
+    ]);
+  });
+
+  it('still submits and confirms the rest when one submit fails', async () => {
+    const offline = new Error('Network request failed');
+    const connection = fakeConnection([
+      async () => 'sig-1',
+      async () => {
+        throw offline;
+      },
+      async () => 'sig-3',
+    ]);
+
+    const unanswered = signedTransfer(2);
+    const error = await sendSignedTransactions(connection as unknown as Connection, [
+      signedTransfer(1),
+      unanswered,
+      signedTransfer(3),
+    ]).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(BatchSubmissionError);
+    const { submissions, confirmations } = error as BatchSubmissionError;
+    expect(submissions).toEqual([
+      { status: 'submitted', signature: 'sig-1' },
+      { status: 'failed', error: expect.any(SubmissionUnknownError) },
+      { status: 'submitted', signature: 'sig-3' },
+    ]);
+    const [, failed] = submissions;
+    expect(failed.status === 'failed' && failed.error).toMatchObject({
+      signature: bs58.encode(unanswered.signature!),
+      error: offline,
+    });
+    expect(confirmations.map((result) => result?.signature ?? null)).toEqual([
+      'sig-1',
+      null,
+      'sig-3',
+    ]);
+  });
+
+  it('does not report a submit the RPC never answered as a plain failure', async () => {
+    const tx = signedTransfer(1);
+    const connection = fakeConnection([
+      async () => {
+        throw new Error('Request timed out');
+      },
+    ]);
+
+    const error = await sendSignedTransaction(connection as unknown as Connection, tx).catch(
+      (err: unknown) => err,
+    );
+
+    expect(error).toBeInstanceOf(SubmissionUnknownError);
+    expect((error as SubmissionUnknownError).signature).toBe(bs58.encode(tx.signature!));
+    expect(connection.getSignatureStatuses).not.toHaveBeenCalled();
+  });
+});
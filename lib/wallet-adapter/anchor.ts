@@ -0,0 +1,12 @@
+import { PublicKey } from '@solana/web3.js';
+
+import type { AnchorWallet, WalletAdapter } from './types';
+
+export const toAnchorWallet = (
+  adapter: WalletAdapter,
+  publicKey: PublicKey | null = adapter.publicKey,
+): AnchorWallet => ({
+  publicKey: publicKey ?? PublicKey.default,
+  signTransaction: (tx) => adapter.signTransaction(tx),
+  signAllTransactions: (txs) => adapter.signAllTransactions(txs),
+});
@@ -0,0 +1,273 @@
+import * as Linking from 'expo-linking';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { PublicKey } from '@solana/web3.js';
+import type { Connection, Transaction } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+
+import { DAPP_URL } from '@/constants/solana';
+import { walletClusterParam } from '@/lib/cluster-config';
+import {
+  createDeeplinkRequest,
+  DeeplinkTimeoutError,
+  rejectAllDeeplinkRequests,
+  rejectDeeplinkRequest,
+  withRequestId,
+} from '@/lib/deeplink-requests';
+import {
+  DEEPLINK_PROVIDERS,
+  deeplinkDisconnectLink,
+  deeplinkRedirectLink,
+  getDeeplinkWalletKeypair,
+  getDeeplinkWalletState,
+  resetDeeplinkWalletState,
+  setDeeplinkWalletKeypair,
+  subscribeDeeplinkWalletState,
+} from '@/lib/deeplink-wallet';
+import type { DeeplinkProvider, DeeplinkProviderId } from '@/lib/deeplink-wallet';
+import { forgetDeeplinkSession } from '@/lib/session-storage';
+import { DisconnectedError, SessionExpiredError } from '@/lib/wallet-errors';
+
+import { createAdapterEvents } from './events';
+import {
+  confirmSignature,
+  deserializeLike,
+  prepareTransaction,
+  serializeUnsigned,
+} from './transaction';
+import type {
+  SignableTransaction,
+  WalletAdapter,
+  WalletDisconnectResult,
+  WalletRequestOptions,
+} from './types';
+
+const DISCONNECT_TIMEOUT_MS = 60 * 1000;
+
+const adapters = new Map<DeeplinkProviderId, WalletAdapter>();
+
+type RequestOptions = WalletRequestOptions & {
+  redirectLink?: string;
+  timeoutMs?: number;
+};
+
+export const encryptPayload = (
+  payload: object,
+  encryptionPublicKey: string,
+  keypair: nacl.BoxKeyPair,
+) => {
+  const sharedSecret = nacl.box.before(bs58.decode(encryptionPublicKey), keypair.secretKey);
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const encrypted = nacl.box.after(Buffer.from(JSON.stringify(payload)), nonce, sharedSecret);
+  return {
+    data: bs58.encode(encrypted),
+    nonce: bs58.encode(nonce),
+    dappPublicKey: bs58.encode(keypair.publicKey),
+  };
+};
+
+// Phantom, Solflare and Backpack all exchange transactions as base58.
+const encodeTransaction = (tx: SignableTransaction) => bs58.encode(serializeUnsigned(tx));
+
+const decodeTransaction = <T extends SignableTransaction>(original: T, encoded: string) =>
+  deserializeLike(original, bs58.decode(encoded));
+
+const createDeeplinkAdapter = (provider: DeeplinkProvider): WalletAdapter => {
+  const events = createAdapterEvents();
+  const connectLink = deeplinkRedirectLink(provider);
+  const disconnectLink = deeplinkDisconnectLink(provider);
+  const readState = () => getDeeplinkWalletState(provider.id);
+  const forgetSession = () => forgetDeeplinkSession(provider.id);
+  let publicKey: PublicKey | null = null;
+
+  const syncPublicKey = () => {
+    const next = readState().publicKey;
+    if ((publicKey?.toBase58() ?? null) === next) {
+      return;
+    }
+    publicKey = next ? new PublicKey(next) : null;
+    if (publicKey) {
+      events.emit('connect', publicKey);
+    } else {
+      events.emit('disconnect', undefined);
+    }
+  };
+
+  syncPublicKey();
+  subscribeDeeplinkWalletState(provider.id, () => {
+    syncPublicKey();
+    const { error, lastUrl } = readState();
+    if (error && lastUrl?.startsWith(connectLink)) {
+      events.emit('error', new Error(error));
+    }
+  });
+
+  const requireSession = () => {
+    const { session, encryptionPublicKey } = readState();
+    const keypair = getDeeplinkWalletKeypair(provider.id);
+    if (!session || !encryptionPublicKey || !keypair) {
+      throw new SessionExpiredError(provider.name);
+    }
+    return { session, encryptionPublicKey, keypair };
+  };
+
+  const request = async (
+    method: string,
+    buildParams: (redirectLink: string) => URLSearchParams,
+    options: RequestOptions = {},
+  ) => {
+    const { id, promise } = createDeeplinkRequest(provider.name, method, {
+      action: options.action,
+      timeoutMs: options.timeoutMs,
+    });
+    const params = buildParams(withRequestId(options.redirectLink ?? connectLink, id));
+    try {
+      await Linking.openURL(`${provider.baseUrl}/ul/v1/${method}?${params.toString()}`);
+    } catch {
+      rejectDeeplinkRequest(id, new Error(`Unable to open ${provider.name}.`));
+    }
+    return promise;
+  };
+
+  const requestWithSession = (
+    method: string,
+    payload: Record<string, unknown>,
+    options: RequestOptions = {},
+  ) => {
+    const { session, encryptionPublicKey, keypair } = requireSession();
+    return request(
+      method,
+      (redirectLink) => {
+        const { data, nonce, dappPublicKey } = encryptPayload(
+          { ...payload, session },
+          encryptionPublicKey,
+          keypair,
+        );
+        return new URLSearchParams({
+          app_url: DAPP_URL,
+          dapp_encryption_public_key: dappPublicKey,
+          redirect_link: redirectLink,
+          cluster: walletClusterParam(),
+          nonce,
+          data,
+        });
+      },
+      options,
+    );
+  };
+
+  return {
+    kind: provider.id,
+    name: provider.name,
+    get publicKey() {
+      return publicKey;
+    },
+    get connected() {
+      return Boolean(publicKey);
+    },
+    supportsVersionedTransactions: true,
+    connect: async (options) => {
+      await forgetSession();
+      const keypair = nacl.box.keyPair();
+      setDeeplinkWalletKeypair(provider.id, keypair);
+
+      try {
+        await request(
+          'connect',
+          (redirectLink) =>
+            new URLSearchParams({
+              app_url: DAPP_URL,
+              dapp_encryption_public_key: bs58.encode(keypair.publicKey),
+              redirect_link: redirectLink,
+              cluster: walletClusterParam(),
+            }),
+          options,
+        );
+      } catch (err) {
+        resetDeeplinkWalletState(provider.id);
+        throw err;
+      }
+    },
+    disconnect: async (options) => {
+      let result: WalletDisconnectResult = 'local';
+      if (readState().session) {
+        try {
+          await requestWithSession(
+            'disconnect',
+            {},
+            { ...options, redirectLink: disconnectLink, timeoutMs: DISCONNECT_TIMEOUT_MS },
+          );
+          result = 'confirmed';
+        } catch (err) {
+          if (!(err instanceof DeeplinkTimeoutError)) {
+            throw err;
+          }
+          result = 'timeout';
+        }
+      }
+      rejectAllDeeplinkRequests(provider.name, new Error(`${provider.name} disconnected.`));
+      await forgetSession();
+      return result;
+    },
+    signTransaction: async (tx, options) => {
+      const result = await requestWithSession(
+        'signTransaction',
+        { transaction: encodeTransaction(tx) },
+        options,
+      );
+      if (!result.transaction) {
+        throw new Error(`${provider.name} did not return a signed transaction.`);
+      }
+      return decodeTransaction(tx, result.transaction);
+    },
+    signAllTransactions: async (txs, options) => {
+      const result = await requestWithSession(
+        'signAllTransactions',
+        { transactions: txs.map(encodeTransaction) },
+        options,
+      );
+      if (!result.transactions || result.transactions.length !== txs.length) {
+        throw new Error(`${provider.name} did not return every signed transaction.`);
+      }
+      return result.transactions.map((encoded, index) => decodeTransaction(txs[index], encoded));
+    },
+    signAndSend: async (tx: Transaction, connection: Connection, options) => {
+      if (!publicKey) {
+        throw new DisconnectedError(provider.name);
+      }
+      const prepared = await prepareTransaction(connection, tx, publicKey);
+      const result = await requestWithSession(
+        'signAndSendTransaction',
+        { transaction: encodeTransaction(prepared) },
+        options,
+      );
+      if (!result.signature) {
+        throw new Error(`${provider.name} did not return a transaction signature.`);
+      }
+      await confirmSignature(connection, result.signature, prepared);
+      return result.signature;
+    },
+    signMessage: async (message, options) => {
+      const result = await requestWithSession(
+        'signMessage',
+        { message: bs58.encode(message), display: 'utf8' },
+        options,
+      );
+      if (!result.signature) {
+        throw new Error(`${provider.name} did not return a message signature.`);
+      }
+      return bs58.decode(result.signature);
+    },
+    on: events.on,
+  };
+};
+
+export const getDeeplinkAdapter = (id: DeeplinkProviderId) => {
+  const existing = adapters.get(id);
+  if (existing) {
+    return existing;
+  }
+  const adapter = createDeeplinkAdapter(DEEPLINK_PROVIDERS[id]);
+  adapters.set(id, adapter);
+  return adapter;
+};
@@ -0,0 +1,27 @@
+import type { WalletAdapterEvent, WalletAdapterEvents, WalletAdapterListener } from './types';
+
+type ListenerMap = {
+  [E in WalletAdapterEvent]: WalletAdapterListener<E>[];
+};
+
+export const createAdapterEvents = () => {
+  let listeners: ListenerMap = { connect: [], disconnect: [], error: [] };
+
+  const on = <E extends WalletAdapterEvent>(event: E, listener: WalletAdapterListener<E>) => {
+    listeners = { ...listeners, [event]: [...listeners[event], listener] };
+    return () => {
+      listeners = {
+        ...listeners,
+        [event]: (listeners[event] as WalletAdapterListener<E>[]).filter(
+          (item) => item !== listener,
+        ),
+      };
+    };
+  };
+
+  const emit = <E extends WalletAdapterEvent>(event: E, payload: WalletAdapterEvents[E]) => {
+    (listeners[event] as WalletAdapterListener<E>[]).forEach((listener) => listener(payload));
+  };
+
+  return { on, emit };
+};
@@ -0,0 +1,70 @@
+import { Platform } from 'react-native';
+import type { Connection, Transaction } from '@solana/web3.js';
+
+import { getActiveWallet } from '@/lib/wallet-store';
+import type { WalletKind } from '@/lib/wallet-store';
+
+import { getDeeplinkAdapter } from './deeplink';
+import { localWalletAdapter } from './local';
+import { mwaWalletAdapter } from './mwa';
+import { solflareWebAdapter } from './solflare-web';
+import { getStandardWalletAdapter, isStandardWalletKind } from './standard';
+import { prepareTransactions, sendSignedTransactions } from './transaction';
+import type { WalletAdapter, WalletRequestOptions } from './types';
+
+export { toAnchorWallet } from './anchor';
+export { forgetMwaAuthorization } from './mwa';
+export { standardWalletKind } from './standard';
+export { confirmSignature } from './transaction';
+export type {
+  AnchorWallet,
+  SignableTransaction,
+  WalletAdapter,
+  WalletAdapterEvent,
+  WalletAdapterEvents,
+  WalletRequestOptions,
+} from './types';
+
+export const getWalletAdapter = (kind: WalletKind): WalletAdapter => {
+  if (kind === 'local') {
+    return localWalletAdapter;
+  }
+  if (kind === 'mwa') {
+    return mwaWalletAdapter;
+  }
+  if (isStandardWalletKind(kind)) {
+    return getStandardWalletAdapter(kind.slice('standard:'.length));
+  }
+  if (kind === 'phantom') {
+    return Platform.OS === 'web'
+      ? getStandardWalletAdapter('Phantom', 'phantom')
+      : getDeeplinkAdapter('phantom');
+  }
+  if (kind === 'backpack') {
+    return Platform.OS === 'web'
+      ? getStandardWalletAdapter('Backpack', 'backpack')
+      : getDeeplinkAdapter('backpack');
+  }
+  return Platform.OS === 'web' ? solflareWebAdapter : getDeeplinkAdapter('solflare');
+};
+
+export const getActiveWalletAdapter = () => getWalletAdapter(getActiveWallet());
+
+export const signAndSendAll = async (
+  adapter: WalletAdapter,
+  txs: Transaction[],
+  connection: Connection,
+  options?: WalletRequestOptions,
+) => {
+  if (!adapter.publicKey) {
+    throw new Error('Wallet not connected.');
+  }
+  const prepared = await prepareTransactions(
+    connection,
+    txs,
+    adapter.publicKey,
+    adapter.supportsVersionedTransactions,
+  );
+  const signed = await adapter.signAllTransactions(prepared, options);
+  return sendSignedTransactions(connection, signed);
+};
@@ -0,0 +1,80 @@
+import nacl from 'tweetnacl';
+import { VersionedTransaction } from '@solana/web3.js';
+import type { Connection, Keypair, Transaction } from '@solana/web3.js';
+
+import {
+  getLocalAccounts,
+  getLocalKeypair,
+  selectLocalAccount,
+  subscribeLocalKeypair,
+} from '@/lib/wallet-store';
+
+import { createAdapterEvents } from './events';
+import { prepareTransaction, sendSignedTransaction } from './transaction';
+import type { SignableTransaction, WalletAdapter } from './types';
+
+const events = createAdapterEvents();
+
+subscribeLocalKeypair((next) => {
+  if (next) {
+    events.emit('connect', next.publicKey);
+  } else {
+    events.emit('disconnect', undefined);
+  }
+});
+
+const requireKeypair = () => {
+  const keypair = getLocalKeypair();
+  if (!keypair) {
+    throw new Error('Local wallet not created.');
+  }
+  return keypair;
+};
+
+const signWith = <T extends SignableTransaction>(tx: T, keypair: Keypair) => {
+  if (tx instanceof VersionedTransaction) {
+    tx.sign([keypair]);
+  } else {
+    tx.partialSign(keypair);
+  }
+  return tx;
+};
+
+export const localWalletAdapter: WalletAdapter = {
+  kind: 'local',
+  name: 'Local',
+  get publicKey() {
+    return getLocalKeypair()?.publicKey ?? null;
+  },
+  get connected() {
+    return Boolean(getLocalKeypair());
+  },
+  supportsVersionedTransactions: true,
+  connect: async () => {
+    if (getLocalKeypair()) {
+      return;
+    }
+    // New accounts need a passcode to be saved, so they are only created from the wallet tab.
+    const [first] = getLocalAccounts();
+    if (!first) {
+      throw new Error('Local wallet not created.');
+    }
+    selectLocalAccount(first.id);
+  },
+  disconnect: async () => {
+    selectLocalAccount(null);
+    return 'local';
+  },
+  signTransaction: async (tx) => signWith(tx, requireKeypair()),
+  signAllTransactions: async (txs) => {
+    const keypair = requireKeypair();
+    return txs.map((tx) => signWith(tx, keypair));
+  },
+  signAndSend: async (tx: Transaction, connection: Connection) => {
+    const keypair = requireKeypair();
+    const prepared = await prepareTransaction(connection, tx, keypair.publicKey);
+    return sendSignedTransaction(connection, signWith(prepared, keypair));
+  },
+  signMessage: async (message) => nacl.sign.detached(message, requireKeypair().secretKey),
+  on: events.on,
+};
@@ -0,0 +1,399 @@
+import { gcm } from '@noble/ciphers/aes';
+import { p256 } from '@noble/curves/nist';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import type {
+  Web3MobileWallet,
+  transact,
+} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
+import { Buffer } from 'buffer';
+
+import { deserializeLike, serializeUnsigned } from './transaction';
+import type { SignableTransaction } from './types';
+
+// A development wallet endpoint that runs the MWA session protocol in-process. The dapp side
+// associates with a fresh P-256 keypair, the endpoint verifies the signed HELLO_REQ, both sides
+// derive the AES-128-GCM session key over ECDH, and every JSON-RPC call after that travels as a
+// sequence-numbered encrypted frame. Only the loopback socket and the wallet app are missing.
+const PROTOCOL_VERSION = 'v1';
+const PUBLIC_KEY_LENGTH = 65;
+const SIGNATURE_LENGTH = 64;
+const SEQUENCE_LENGTH = 4;
+const IV_LENGTH = 12;
+const SESSION_KEY_LENGTH = 16;
+const MOCK_WALLET_URI_BASE = 'https://mwa-mock-endpoint.invalid';
+const MOCK_ACCOUNT_LABEL = 'Mock Endpoint Wallet';
+
+const ERROR_SESSION_CLOSED = 'ERROR_SESSION_CLOSED';
+const ERROR_AUTHORIZATION_FAILED = -1;
+const ERROR_INVALID_PAYLOADS = -2;
+const ERROR_NOT_SUBMITTED = -4;
+const ERROR_METHOD_NOT_FOUND = -32601;
+
+export class MwaMockEndpointError extends Error {
+  code: string | number;
+
+  constructor(code: string | number, message: string) {
+    super(message);
+    this.name = 'MwaMockEndpointError';
+    this.code = code;
+  }
+}
+
+type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: Record<string, unknown>;
+};
+
+type JsonRpcResponse = {
+  jsonrpc: '2.0';
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+type AuthorizeParams = {
+  identity?: { name?: string; uri?: string };
+  chain?: string;
+  cluster?: string;
+  auth_token?: string;
+};
+
+type SignedPayloads = { signed_payloads: string[] };
+
+type SessionCipher = {
+  seal: (message: unknown) => Uint8Array;
+  open: <T>(frame: Uint8Array) => T;
+};
+
+type SessionCall = <T>(method: string, params: object) => Promise<T>;
+
+export type MwaMockEndpointSocket = {
+  send: (frame: Uint8Array) => Promise<Uint8Array>;
+  close: () => void;
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  new Uint8Array(Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64'));
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+const fromBase64 = (value: string) => new Uint8Array(Buffer.from(value, 'base64'));
+
+const sessionClosed = (message: string) => new MwaMockEndpointError(ERROR_SESSION_CLOSED, message);
+
+// The session key is HKDF-SHA256 over the ECDH x-coordinate, salted with the association key.
+const deriveSessionKey = (
+  privateKey: Uint8Array,
+  peerPublicKey: Uint8Array,
+  associationPublicKey: Uint8Array,
+) =>
+  hkdf(
+    sha256,
+    p256.getSharedSecret(privateKey, peerPublicKey).slice(1),
+    associationPublicKey,
+    undefined,
+    SESSION_KEY_LENGTH,
+  );
+
+// Frames are `sequence || iv || ciphertext`; the sequence number is the AAD and must grow by one
+// per frame in each direction, so a replayed or reordered frame ends the session.
+const createSessionCipher = (key: Uint8Array): SessionCipher => {
+  let sent = 0;
+  let received = 0;
+
+  return {
+    seal: (message) => {
+      sent += 1;
+      const sequence = new Uint8Array(SEQUENCE_LENGTH);
+      new DataView(sequence.buffer).setUint32(0, sent);
+      const iv = nacl.randomBytes(IV_LENGTH);
+      const plaintext = Buffer.from(JSON.stringify(message), 'utf8');
+      return Buffer.concat([sequence, iv, gcm(key, iv, sequence).encrypt(plaintext)]);
+    },
+    open: (frame) => {
+      const sequence = frame.slice(0, SEQUENCE_LENGTH);
+      if (new DataView(frame.buffer, frame.byteOffset).getUint32(0) !== received + 1) {
+        throw sessionClosed('Session frame arrived out of sequence.');
+      }
+      const iv = frame.slice(SEQUENCE_LENGTH, SEQUENCE_LENGTH + IV_LENGTH);
+      let plaintext: Uint8Array;
+      try {
+        plaintext = gcm(key, iv, sequence).decrypt(frame.slice(SEQUENCE_LENGTH + IV_LENGTH));
+      } catch {
+        throw sessionClosed('Session frame failed to decrypt.');
+      }
+      received += 1;
+      return JSON.parse(Buffer.from(plaintext).toString('utf8'));
+    },
+  };
+};
+
+const walletKeypair = Keypair.generate();
+const authTokens = new Map<string, { identity: string; chain: string }>();
+
+const walletAddress = () => toBase64(walletKeypair.publicKey.toBytes());
+
+const protocolError = (code: number, message: string) => new MwaMockEndpointError(code, message);
+
+const authorizationResult = (authToken: string) => ({
+  accounts: [{ address: walletAddress(), label: MOCK_ACCOUNT_LABEL }],
+  auth_token: authToken,
+  wallet_uri_base: MOCK_WALLET_URI_BASE,
+});
+
+const reuseAuthorization = (authToken: string, identity: AuthorizeParams['identity']) => {
+  const existing = authTokens.get(authToken);
+  if (!existing || existing.identity !== (identity?.uri ?? '')) {
+    throw protocolError(ERROR_AUTHORIZATION_FAILED, 'Auth token is not valid.');
+  }
+  return authorizationResult(authToken);
+};
+
+const issueAuthorization = ({ identity, chain, cluster }: AuthorizeParams) => {
+  const authToken = bs58.encode(nacl.randomBytes(16));
+  authTokens.set(authToken, {
+    identity: identity?.uri ?? '',
+    chain: chain ?? (cluster ? `solana:${cluster}` : 'solana:devnet'),
+  });
+  return authorizationResult(authToken);
+};
+
+const signPayload = (payload: string) => {
+  const tx = VersionedTransaction.deserialize(fromBase64(payload));
+  tx.sign([walletKeypair]);
+  return toBase64(tx.serialize());
+};
+
+const readPayloads = (params: Record<string, unknown>) => {
+  const payloads = params.payloads;
+  if (!Array.isArray(payloads) || payloads.length === 0) {
+    throw protocolError(ERROR_INVALID_PAYLOADS, 'No payloads to sign.');
+  }
+  return payloads as string[];
+};
+
+const createWalletHandler = () => {
+  let authorized = false;
+
+  const requireAuthorized = () => {
+    if (!authorized) {
+      throw protocolError(ERROR_AUTHORIZATION_FAILED, 'Session is not authorized.');
+    }
+  };
+
+  const methods: Record<string, (params: Record<string, unknown>) => unknown> = {
+    authorize: (params) => {
+      const { auth_token: authToken, identity } = params as AuthorizeParams;
+      const result = authToken
+        ? reuseAuthorization(authToken, identity)
+        : issueAuthorization(params as AuthorizeParams);
+      authorized = true;
+      return result;
+    },
+    reauthorize: (params) => {
+      const { auth_token: authToken, identity } = params as AuthorizeParams;
+      const result = reuseAuthorization(authToken ?? '', identity);
+      authorized = true;
+      return result;
+    },
+    deauthorize: (params) => {
+      authTokens.delete(String(params.auth_token));
+      authorized = false;
+      return {};
+    },
+    clone_authorization: (params) => {
+      requireAuthorized();
+      const existing = authTokens.get(String(params.auth_token));
+      if (!existing) {
+        throw protocolError(ERROR_AUTHORIZATION_FAILED, 'Auth token is not valid.');
+      }
+      const clone = bs58.encode(nacl.randomBytes(16));
+      authTokens.set(clone, existing);
+      return { auth_token: clone };
+    },
+    get_capabilities: () => ({
+      max_transactions_per_request: 10,
+      max_messages_per_request: 10,
+      supported_transaction_versions: ['legacy', 0],
+      features: ['solana:signTransactions', 'solana:cloneAuthorization'],
+    }),
+    sign_transactions: (params) => {
+      requireAuthorized();
+      return { signed_payloads: readPayloads(params).map(signPayload) };
+    },
+    sign_and_send_transactions: () => {
+      throw protocolError(ERROR_NOT_SUBMITTED, 'The mock endpoint cannot submit transactions.');
+    },
+    sign_messages: (params) => {
+      requireAuthorized();
+      const addresses = params.addresses;
+      if (!Array.isArray(addresses) || addresses.some((address) => address !== walletAddress())) {
+        throw protocolError(ERROR_INVALID_PAYLOADS, 'Unknown signing address.');
+      }
+      return {
+        signed_payloads: readPayloads(params).map((payload) => {
+          const message = fromBase64(payload);
+          const signature = nacl.sign.detached(message, walletKeypair.secretKey);
+          return toBase64(Buffer.concat([message, signature]));
+        }),
+      };
+    },
+  };
+
+  return (request: JsonRpcRequest): JsonRpcResponse => {
+    const method = methods[request.method];
+    try {
+      if (!method) {
+        throw protocolError(ERROR_METHOD_NOT_FOUND, `Unknown method ${request.method}.`);
+      }
+      return { jsonrpc: '2.0', id: request.id, result: method(request.params ?? {}) };
+    } catch (err) {
+      const { code, message } = err as MwaMockEndpointError;
+      return { jsonrpc: '2.0', id: request.id, error: { code: Number(code), message } };
+    }
+  };
+};
+
+// The wallet end of a local association: the first frame must be a HELLO_REQ signed by the key
+// in the association token, and everything after it must decrypt under the session key.
+export const openMockEndpointSession = (associationToken: string): MwaMockEndpointSocket => {
+  const associationPublicKey = fromBase64Url(associationToken);
+  const handle = createWalletHandler();
+  let cipher: SessionCipher | null = null;
+  let closed = false;
+
+  const hello = (frame: Uint8Array) => {
+    if (frame.length !== PUBLIC_KEY_LENGTH + SIGNATURE_LENGTH) {
+      throw sessionClosed('HELLO_REQ has the wrong length.');
+    }
+    const dappPublicKey = frame.slice(0, PUBLIC_KEY_LENGTH);
+    const signature = frame.slice(PUBLIC_KEY_LENGTH);
+    if (!p256.verify(signature, sha256(dappPublicKey), associationPublicKey)) {
+      throw sessionClosed('HELLO_REQ was not signed by the association key.');
+    }
+    const privateKey = p256.utils.randomPrivateKey();
+    cipher = createSessionCipher(deriveSessionKey(privateKey, dappPublicKey, associationPublicKey));
+    return Buffer.concat([
+      p256.getPublicKey(privateKey, false),
+      cipher.seal({ v: PROTOCOL_VERSION }),
+    ]);
+  };
+
+  return {
+    send: async (frame) => {
+      if (closed) {
+        throw sessionClosed('Session is closed.');
+      }
+      try {
+        if (!cipher) {
+          return hello(frame);
+        }
+        return cipher.seal(handle(cipher.open<JsonRpcRequest>(frame)));
+      } catch (err) {
+        closed = true;
+        throw err;
+      }
+    },
+    close: () => {
+      closed = true;
+    },
+  };
+};
+
+const associate = async (socket: MwaMockEndpointSocket, associationPrivateKey: Uint8Array) => {
+  const associationPublicKey = p256.getPublicKey(associationPrivateKey, false);
+  const privateKey = p256.utils.randomPrivateKey();
+  const publicKey = p256.getPublicKey(privateKey, false);
+  const signature = p256.sign(sha256(publicKey), associationPrivateKey).toCompactRawBytes();
+
+  const response = await socket.send(Buffer.concat([publicKey, signature]));
+  const cipher = createSessionCipher(
+    deriveSessionKey(privateKey, response.slice(0, PUBLIC_KEY_LENGTH), associationPublicKey),
+  );
+  const properties = cipher.open<{ v?: string }>(response.slice(PUBLIC_KEY_LENGTH));
+  if (properties.v !== PROTOCOL_VERSION) {
+    throw sessionClosed(`Unsupported protocol version ${properties.v}.`);
+  }
+  return cipher;
+};
+
+const createSessionWallet = (call: SessionCall) => {
+  const encodeTransactions = (transactions: SignableTransaction[]) =>
+    transactions.map((tx) => toBase64(serializeUnsigned(tx)));
+
+  const wallet = {
+    authorize: (params: AuthorizeParams) => call('authorize', params),
+    reauthorize: (params: AuthorizeParams) => call('reauthorize', params),
+    deauthorize: (params: { auth_token: string }) => call('deauthorize', params),
+    cloneAuthorization: (params: { auth_token: string }) => call('clone_authorization', params),
+    getCapabilities: () => call('get_capabilities', {}),
+    signTransactions: async <T extends SignableTransaction>({
+      transactions,
+    }: {
+      transactions: T[];
+    }) => {
+      const { signed_payloads: signed } = await call<SignedPayloads>('sign_transactions', {
+        payloads: encodeTransactions(transactions),
+      });
+      return signed.map((payload, index) =>
+        deserializeLike(transactions[index], fromBase64(payload)),
+      );
+    },
+    signAndSendTransactions: ({ transactions }: { transactions: SignableTransaction[] }) =>
+      call('sign_and_send_transactions', { payloads: encodeTransactions(transactions) }),
+    signMessages: async ({
+      addresses,
+      payloads,
+    }: {
+      addresses: string[];
+      payloads: Uint8Array[];
+    }) => {
+      const { signed_payloads: signed } = await call<SignedPayloads>('sign_messages', {
+        addresses,
+        payloads: payloads.map(toBase64),
+      });
+      return signed.map(fromBase64);
+    },
+  };
+
+  return wallet as unknown as Web3MobileWallet;
+};
+
+// The dapp end: stands in for `transact`, but every wallet call goes through the association and
+// the encrypted session above rather than straight to a JavaScript object.
+export const mockEndpointTransact: typeof transact = async (callback) => {
+  const associationPrivateKey = p256.utils.randomPrivateKey();
+  const socket = openMockEndpointSession(
+    toBase64Url(p256.getPublicKey(associationPrivateKey, false)),
+  );
+  try {
+    const cipher = await associate(socket, associationPrivateKey);
+    let nextId = 0;
+    const call: SessionCall = async <T>(method: string, params: object) => {
+      nextId += 1;
+      const id = nextId;
+      const response = cipher.open<JsonRpcResponse>(
+        await socket.send(cipher.seal({ jsonrpc: '2.0', id, method, params })),
+      );
+      if (response.id !== id) {
+        throw sessionClosed('Response does not match the request.');
+      }
+      if (response.error) {
+        throw protocolError(response.error.code, response.error.message);
+      }
+      return response.result as T;
+    };
+    return await callback(createSessionWallet(call));
+  } finally {
+    socket.close();
+  }
+};
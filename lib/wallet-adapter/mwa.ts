@@ -0,0 +1,235 @@
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { PublicKey } from '@solana/web3.js';
+import type { Connection, Transaction } from '@solana/web3.js';
+import type {
+  transact as Transact,
+  Web3MobileWallet,
+} from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
+import { Buffer } from 'buffer';
+
+import { DAPP_URL, MWA_MOCK_ENDPOINT } from '@/constants/solana';
+import { clusterChainId } from '@/lib/cluster-config';
+import { toWalletError } from '@/lib/wallet-errors';
+
+import { createAdapterEvents } from './events';
+import { mockEndpointTransact } from './mwa-mock-endpoint';
+import { prepareTransaction, sendSignedTransaction } from './transaction';
+import type { WalletAdapter } from './types';
+
+type MwaAuthorization = {
+  authToken: string;
+  publicKey: PublicKey;
+  walletUriBase: string;
+};
+
+type StoredMwaAuthorization = {
+  version: number;
+  authToken: string;
+  publicKey: string;
+  walletUriBase: string;
+};
+
+type AuthorizationResult = Awaited<ReturnType<Web3MobileWallet['reauthorize']>>;
+
+const MWA_STORAGE_VERSION = 1;
+const MWA_STORAGE_KEY = 'block_delivery.mwa_authorization';
+const MWA_ERROR_AUTHORIZATION_FAILED = -1;
+const MWA_UNCONFIRMED_SESSION_CODES = ['ERROR_SESSION_TIMEOUT', 'ERROR_ASSOCIATION_CANCELLED'];
+const SIGNATURE_LENGTH = 64;
+
+const APP_IDENTITY = {
+  name: 'Block Delivery',
+  uri: DAPP_URL,
+  icon: 'favicon.ico',
+};
+
+const events = createAdapterEvents();
+let authorization: MwaAuthorization | null = null;
+let loading: Promise<typeof Transact> | null = null;
+
+const isStorageAvailable = () => Platform.OS !== 'web';
+
+const loadTransact = () => {
+  if (MWA_MOCK_ENDPOINT) {
+    return Promise.resolve(mockEndpointTransact);
+  }
+  if (!loading) {
+    loading = import('@solana-mobile/mobile-wallet-adapter-protocol-web3js')
+      .then((mwaModule) => mwaModule.transact)
+      .catch(() => {
+        loading = null;
+        throw new Error('Mobile Wallet Adapter failed to load.');
+      });
+  }
+  return loading;
+};
+
+const readStoredAuthorization = async (): Promise<MwaAuthorization | null> => {
+  if (!isStorageAvailable()) {
+    return null;
+  }
+  const raw = await SecureStore.getItemAsync(MWA_STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredMwaAuthorization>;
+    if (
+      parsed.version !== MWA_STORAGE_VERSION ||
+      typeof parsed.authToken !== 'string' ||
+      typeof parsed.publicKey !== 'string' ||
+      typeof parsed.walletUriBase !== 'string'
+    ) {
+      throw new Error('Invalid stored authorization');
+    }
+    return {
+      authToken: parsed.authToken,
+      publicKey: new PublicKey(parsed.publicKey),
+      walletUriBase: parsed.walletUriBase,
+    };
+  } catch {
+    await SecureStore.deleteItemAsync(MWA_STORAGE_KEY);
+    return null;
+  }
+};
+
+const setAuthorization = async (next: MwaAuthorization | null) => {
+  const previous = authorization;
+  authorization = next;
+  if (next && !previous?.publicKey.equals(next.publicKey)) {
+    events.emit('connect', next.publicKey);
+  } else if (!next && previous) {
+    events.emit('disconnect', undefined);
+  }
+
+  if (!isStorageAvailable()) {
+    return;
+  }
+  if (!next) {
+    await SecureStore.deleteItemAsync(MWA_STORAGE_KEY);
+    return;
+  }
+  await SecureStore.setItemAsync(
+    MWA_STORAGE_KEY,
+    JSON.stringify({
+      version: MWA_STORAGE_VERSION,
+      authToken: next.authToken,
+      publicKey: next.publicKey.toBase58(),
+      walletUriBase: next.walletUriBase,
+    } satisfies StoredMwaAuthorization),
+  );
+};
+
+const applyAuthorization = async (result: AuthorizationResult) => {
+  const [account] = result.accounts;
+  if (!account) {
+    throw new Error('Wallet did not authorize any account.');
+  }
+  const next = {
+    authToken: result.auth_token,
+    publicKey: new PublicKey(Buffer.from(account.address, 'base64')),
+    walletUriBase: result.wallet_uri_base,
+  };
+  await setAuthorization(next);
+  return next;
+};
+
+const isAuthorizationFailure = (err: unknown) =>
+  (err as { code?: unknown } | null)?.code === MWA_ERROR_AUTHORIZATION_FAILED;
+
+// The wallet never answered or the user backed out of the association: the outcome is unknown.
+const isUnconfirmedSession = (err: unknown) =>
+  MWA_UNCONFIRMED_SESSION_CODES.includes(String((err as { code?: unknown } | null)?.code));
+
+const authorizeSession = async (wallet: Web3MobileWallet) => {
+  const cached = authorization ?? (await readStoredAuthorization());
+  if (cached) {
+    try {
+      return await applyAuthorization(
+        await wallet.authorize({
+          identity: APP_IDENTITY,
+          chain: clusterChainId(),
+          auth_token: cached.authToken,
+        }),
+      );
+    } catch (err) {
+      if (!isAuthorizationFailure(err)) {
+        throw err;
+      }
+      await setAuthorization(null);
+    }
+  }
+  return applyAuthorization(
+    await wallet.authorize({ identity: APP_IDENTITY, chain: clusterChainId() }),
+  );
+};
+
+const withWallet = async <T>(
+  callback: (wallet: Web3MobileWallet, session: MwaAuthorization) => Promise<T>,
+) => {
+  const transact = await loadTransact();
+  try {
+    return await transact(async (wallet) => callback(wallet, await authorizeSession(wallet)));
+  } catch (err) {
+    throw toWalletError(err, mwaWalletAdapter.name);
+  }
+};
+
+export const forgetMwaAuthorization = () => setAuthorization(null);
+
+export const mwaWalletAdapter: WalletAdapter = {
+  kind: 'mwa',
+  name: MWA_MOCK_ENDPOINT ? 'Mobile Wallet (mock endpoint)' : 'Mobile Wallet',
+  get publicKey() {
+    return authorization?.publicKey ?? null;
+  },
+  get connected() {
+    return Boolean(authorization);
+  },
+  supportsVersionedTransactions: true,
+  connect: async () => {
+    await withWallet(async () => undefined);
+  },
+  disconnect: async () => {
+    const current = authorization ?? (await readStoredAuthorization());
+    if (!current) {
+      return 'local';
+    }
+    try {
+      const transact = await loadTransact();
+      await transact((wallet) => wallet.deauthorize({ auth_token: current.authToken }));
+      return 'confirmed';
+    } catch (err) {
+      if (isUnconfirmedSession(err)) {
+        return 'timeout';
+      }
+      throw toWalletError(err, mwaWalletAdapter.name);
+    } finally {
+      await setAuthorization(null);
+    }
+  },
+  signTransaction: async (tx) => {
+    const [signed] = await withWallet((wallet) => wallet.signTransactions({ transactions: [tx] }));
+    return signed;
+  },
+  signAllTransactions: (txs) =>
+    withWallet((wallet) => wallet.signTransactions({ transactions: txs })),
+  signAndSend: async (tx: Transaction, connection: Connection) => {
+    const [signed] = await withWallet(async (wallet, session) => {
+      const prepared = await prepareTransaction(connection, tx, session.publicKey);
+      return wallet.signTransactions({ transactions: [prepared] });
+    });
+    return sendSignedTransaction(connection, signed);
+  },
+  signMessage: async (message) => {
+    const [signed] = await withWallet((wallet, session) =>
+      wallet.signMessages({
+        addresses: [Buffer.from(session.publicKey.toBytes()).toString('base64')],
+        payloads: [message],
+      }),
+    );
+    return signed.slice(-SIGNATURE_LENGTH);
+  },
+  on: events.on,
+};
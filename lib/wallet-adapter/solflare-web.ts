@@ -0,0 +1,85 @@
+import type Solflare from '@solflare-wallet/sdk';
+import type { Connection, Transaction } from '@solana/web3.js';
+
+import { toWalletError } from '@/lib/wallet-errors';
+
+import { createAdapterEvents } from './events';
+import { prepareTransaction, sendSignedTransaction } from './transaction';
+import type { WalletAdapter } from './types';
+
+const events = createAdapterEvents();
+let wallet: Solflare | null = null;
+let loading: Promise<Solflare> | null = null;
+
+const loadWallet = () => {
+  if (!loading) {
+    loading = import('@solflare-wallet/sdk')
+      .then((solflareModule) => {
+        const next = new solflareModule.default();
+        next.on('connect', () => {
+          if (next.publicKey) {
+            events.emit('connect', next.publicKey);
+          }
+        });
+        next.on('disconnect', () => events.emit('disconnect', undefined));
+        wallet = next;
+        return next;
+      })
+      .catch(() => {
+        loading = null;
+        throw new Error('Solflare SDK failed to load.');
+      });
+  }
+  return loading;
+};
+
+const withWalletErrors = async <T>(run: () => Promise<T>) => {
+  try {
+    return await run();
+  } catch (err) {
+    throw toWalletError(err, 'Solflare');
+  }
+};
+
+const requireWallet = () => {
+  if (!wallet?.publicKey) {
+    throw new Error('Solflare wallet not ready.');
+  }
+  return wallet;
+};
+
+export const solflareWebAdapter: WalletAdapter = {
+  kind: 'solflare',
+  name: 'Solflare',
+  get publicKey() {
+    return wallet?.publicKey ?? null;
+  },
+  get connected() {
+    return Boolean(wallet?.connected);
+  },
+  supportsVersionedTransactions: true,
+  connect: async () => {
+    const next = await loadWallet();
+    await withWalletErrors(() => next.connect());
+  },
+  disconnect: async () => {
+    if (!wallet) {
+      return 'local';
+    }
+    const current = wallet;
+    await withWalletErrors(() => current.disconnect());
+    return 'confirmed';
+  },
+  signTransaction: async (tx) =>
+    (await withWalletErrors(() => requireWallet().signTransaction(tx))) as typeof tx,
+  signAllTransactions: async (txs) =>
+    (await withWalletErrors(() => requireWallet().signAllTransactions(txs))) as typeof txs,
+  signAndSend: async (tx: Transaction, connection: Connection) => {
+    const current = requireWallet();
+    const prepared = await prepareTransaction(connection, tx, current.publicKey!);
+    const signed = await withWalletErrors(() => current.signTransaction(prepared));
+    return sendSignedTransaction(connection, signed);
+  },
+  signMessage: (message) => withWalletErrors(() => requireWallet().signMessage(message, 'utf8')),
+  on: events.on,
+};
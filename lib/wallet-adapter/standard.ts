@@ -0,0 +1,220 @@
+import { PublicKey } from '@solana/web3.js';
+import type { Connection, Transaction } from '@solana/web3.js';
+import { SolanaSignMessage, SolanaSignTransaction } from '@solana/wallet-standard-features';
+import type {
+  SolanaSignMessageFeature,
+  SolanaSignTransactionFeature,
+} from '@solana/wallet-standard-features';
+import type { Wallet, WalletAccount } from '@wallet-standard/base';
+import { StandardConnect, StandardDisconnect, StandardEvents } from '@wallet-standard/features';
+import type {
+  StandardConnectFeature,
+  StandardDisconnectFeature,
+  StandardEventsFeature,
+} from '@wallet-standard/features';
+
+import { clusterChainId } from '@/lib/cluster-config';
+import { DisconnectedError, toWalletError } from '@/lib/wallet-errors';
+import { findStandardWallet, subscribeStandardWallets } from '@/lib/wallet-standard';
+import type { WalletKind } from '@/lib/wallet-store';
+
+import { createAdapterEvents } from './events';
+import {
+  deserializeLike,
+  prepareTransaction,
+  sendSignedTransaction,
+  serializeUnsigned,
+} from './transaction';
+import type { SignableTransaction, WalletAdapter } from './types';
+
+const adapters = new Map<string, WalletAdapter>();
+
+const feature = <F>(wallet: Wallet, name: string) => {
+  const value = (wallet.features as Record<string, unknown>)[name];
+  if (!value) {
+    throw new Error(`${wallet.name} does not support ${name}.`);
+  }
+  return value as F;
+};
+
+export const standardWalletKind = (name: string): WalletKind => `standard:${name}`;
+
+export const isStandardWalletKind = (kind: WalletKind): kind is `standard:${string}` =>
+  kind.startsWith('standard:');
+
+const createStandardAdapter = (walletName: string, kind: WalletKind): WalletAdapter => {
+  const events = createAdapterEvents();
+  let account: WalletAccount | null = null;
+  let boundWallet: Wallet | null = null;
+  let offChange: (() => void) | null = null;
+
+  const setAccount = (next: WalletAccount | null) => {
+    const previous = account;
+    account = next;
+    if (next && previous?.address !== next.address) {
+      events.emit('connect', new PublicKey(next.publicKey));
+    } else if (!next && previous) {
+      events.emit('disconnect', undefined);
+    }
+  };
+
+  const bindWallet = (wallet: Wallet | null) => {
+    if (wallet === boundWallet) {
+      return;
+    }
+    offChange?.();
+    offChange = null;
+    boundWallet = wallet;
+    if (!wallet) {
+      setAccount(null);
+      return;
+    }
+    if (StandardEvents in wallet.features) {
+      offChange = feature<StandardEventsFeature>(wallet, StandardEvents)[StandardEvents].on(
+        'change',
+        ({ accounts }) => {
+          if (accounts) {
+            setAccount(accounts[0] ?? null);
+          }
+        },
+      );
+    }
+    setAccount(wallet.accounts[0] ?? null);
+  };
+
+  bindWallet(findStandardWallet(walletName));
+  subscribeStandardWallets(() => bindWallet(findStandardWallet(walletName)));
+
+  const requireWallet = () => {
+    const wallet = findStandardWallet(walletName);
+    if (!wallet) {
+      throw new Error(`${walletName} wallet not ready.`);
+    }
+    bindWallet(wallet);
+    return wallet;
+  };
+
+  const requireAccount = () => {
+    const wallet = requireWallet();
+    if (!account) {
+      throw new DisconnectedError(walletName);
+    }
+    return { wallet, account };
+  };
+
+  const withWalletErrors = async <T>(run: () => Promise<T>) => {
+    try {
+      return await run();
+    } catch (err) {
+      throw toWalletError(err, walletName);
+    }
+  };
+
+  const supportsVersioned = () => {
+    const signFeature = findStandardWallet(walletName)?.features[SolanaSignTransaction] as
+      SolanaSignTransactionFeature[typeof SolanaSignTransaction] | undefined;
+    return Boolean(signFeature?.supportedTransactionVersions.includes(0));
+  };
+
+  const signAll = async <T extends SignableTransaction>(txs: T[]) => {
+    const { wallet, account: current } = requireAccount();
+    const { [SolanaSignTransaction]: signFeature } = feature<SolanaSignTransactionFeature>(
+      wallet,
+      SolanaSignTransaction,
+    );
+    const outputs = await withWalletErrors(() =>
+      signFeature.signTransaction(
+        ...txs.map((tx) => ({
+          account: current,
+          chain: clusterChainId(),
+          transaction: new Uint8Array(serializeUnsigned(tx)),
+        })),
+      ),
+    );
+    return outputs.map((output, index) => deserializeLike(txs[index], output.signedTransaction));
+  };
+
+  return {
+    kind,
+    name: walletName,
+    get publicKey() {
+      return account ? new PublicKey(account.publicKey) : null;
+    },
+    get connected() {
+      return Boolean(account);
+    },
+    get supportsVersionedTransactions() {
+      return supportsVersioned();
+    },
+    connect: async () => {
+      const wallet = requireWallet();
+      try {
+        const { accounts } = await feature<StandardConnectFeature>(wallet, StandardConnect)[
+          StandardConnect
+        ].connect();
+        setAccount(accounts[0] ?? null);
+      } catch (err) {
+        throw toWalletError(err, walletName);
+      }
+      if (!account) {
+        throw new Error(`${walletName} did not share an account.`);
+      }
+    },
+    disconnect: async () => {
+      const wallet = findStandardWallet(walletName);
+      if (!wallet || !account) {
+        return 'local';
+      }
+      if (StandardDisconnect in wallet.features) {
+        try {
+          await feature<StandardDisconnectFeature>(wallet, StandardDisconnect)[
+            StandardDisconnect
+          ].disconnect();
+        } catch (err) {
+          throw toWalletError(err, walletName);
+        }
+      }
+      setAccount(null);
+      return 'confirmed';
+    },
+    signTransaction: async (tx) => {
+      const [signed] = await signAll([tx]);
+      return signed;
+    },
+    signAllTransactions: signAll,
+    signAndSend: async (tx: Transaction, connection: Connection) => {
+      const { account: current } = requireAccount();
+      const prepared = await prepareTransaction(
+        connection,
+        tx,
+        new PublicKey(current.publicKey),
+        supportsVersioned(),
+      );
+      const [signed] = await signAll([prepared]);
+      return sendSignedTransaction(connection, signed);
+    },
+    signMessage: async (message) => {
+      const { wallet, account: current } = requireAccount();
+      const [output] = await withWalletErrors(() =>
+        feature<SolanaSignMessageFeature>(wallet, SolanaSignMessage)[SolanaSignMessage].signMessage(
+          { account: current, message },
+        ),
+      );
+      return output.signature;
+    },
+    on: events.on,
+  };
+};
+
+export const getStandardWalletAdapter = (
+  walletName: string,
+  kind = standardWalletKind(walletName),
+) => {
+  const existing = adapters.get(kind);
+  if (existing) {
+    return existing;
+  }
+  const adapter = createStandardAdapter(walletName, kind);
+  adapters.set(kind, adapter);
+  return adapter;
+};
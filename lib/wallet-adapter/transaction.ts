@@ -0,0 +1,165 @@
+import {
+  SendTransactionError,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import type { AddressLookupTableAccount, Connection, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Buffer } from 'buffer';
+
+import { getActiveLookupTables } from '@/lib/lookup-tables';
+import {
+  BatchSubmissionError,
+  confirmTransaction,
+  lastValidBlockHeightFor,
+  rememberBlockhash,
+  SubmissionUnknownError,
+  TransactionConfirmationError,
+} from '@/lib/transaction-confirmation';
+import type { ConfirmationResult, SubmissionResult } from '@/lib/transaction-confirmation';
+
+import type { SignableTransaction } from './types';
+
+// Screens build a legacy `Transaction` as a bag of instructions; this is where it becomes the
+// message that is actually signed. Wallets that cannot sign v0 keep the legacy format.
+const compile = (
+  tx: Transaction,
+  feePayer: PublicKey,
+  blockhash: string,
+  lookupTables: AddressLookupTableAccount[] | null,
+): SignableTransaction => {
+  if (!lookupTables) {
+    tx.feePayer = feePayer;
+    tx.recentBlockhash = blockhash;
+    return tx;
+  }
+  const message = new TransactionMessage({
+    payerKey: feePayer,
+    recentBlockhash: blockhash,
+    instructions: tx.instructions,
+  }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+};
+
+const fetchBlockhashAndTables = async (connection: Connection, versioned: boolean) => {
+  const [latest, lookupTables] = await Promise.all([
+    connection.getLatestBlockhash('confirmed'),
+    versioned ? getActiveLookupTables(connection) : Promise.resolve(null),
+  ]);
+  rememberBlockhash(latest);
+  return { blockhash: latest.blockhash, lookupTables };
+};
+
+export const prepareTransaction = async (
+  connection: Connection,
+  tx: Transaction,
+  feePayer: PublicKey,
+  versioned = true,
+) => {
+  const { blockhash, lookupTables } = await fetchBlockhashAndTables(connection, versioned);
+  return compile(tx, feePayer, blockhash, lookupTables);
+};
+
+export const prepareTransactions = async (
+  connection: Connection,
+  txs: Transaction[],
+  feePayer: PublicKey,
+  versioned = true,
+) => {
+  const { blockhash, lookupTables } = await fetchBlockhashAndTables(connection, versioned);
+  return txs.map((tx) => compile(tx, feePayer, blockhash, lookupTables));
+};
+
+const blockhashOf = (tx: SignableTransaction) =>
+  tx instanceof VersionedTransaction ? tx.message.recentBlockhash : tx.recentBlockhash;
+
+export const confirmSignature = async (
+  connection: Connection,
+  signature: string,
+  tx?: SignableTransaction,
+) => {
+  const result = await confirmTransaction(connection, signature, {
+    lastValidBlockHeight: tx ? lastValidBlockHeightFor(blockhashOf(tx)) : null,
+  });
+  if (result.status !== 'confirmed') {
+    throw new TransactionConfirmationError(result);
+  }
+  return result;
+};
+
+const signatureOf = (tx: SignableTransaction) =>
+  bs58.encode(tx instanceof VersionedTransaction ? tx.signatures[0] : tx.signature!);
+
+// A `SendTransactionError` means the RPC answered and refused the transaction; any other failure
+// may have happened after the node already accepted it.
+const submit = async (connection: Connection, tx: SignableTransaction) => {
+  const rawTransaction = tx.serialize();
+  let signature: string;
+  try {
+    signature = await connection.sendRawTransaction(rawTransaction, { skipPreflight: false });
+  } catch (err) {
+    if (err instanceof SendTransactionError) {
+      throw err;
+    }
+    throw new SubmissionUnknownError(signatureOf(tx), err);
+  }
+  return {
+    signature,
+    rawTransaction,
+    lastValidBlockHeight: lastValidBlockHeightFor(blockhashOf(tx)),
+  };
+};
+
+export const sendSignedTransaction = async (connection: Connection, tx: SignableTransaction) => {
+  const { signature, ...options } = await submit(connection, tx);
+  const result = await confirmTransaction(connection, signature, options);
+  if (result.status !== 'confirmed') {
+    throw new TransactionConfirmationError(result);
+  }
+  return signature;
+};
+
+// Results are reported per transaction so one failed or expired transaction in a batch does
+// not hide the ones that landed. A submit failure does not stop the rest of the batch; every
+// signature that went out is still confirmed before the aggregate error is thrown.
+export const sendSignedTransactions = async (
+  connection: Connection,
+  txs: SignableTransaction[],
+): Promise<ConfirmationResult[]> => {
+  const submitted: (Awaited<ReturnType<typeof submit>> | null)[] = [];
+  const submissions: SubmissionResult[] = [];
+  for (const tx of txs) {
+    try {
+      const result = await submit(connection, tx);
+      submitted.push(result);
+      submissions.push({ status: 'submitted', signature: result.signature });
+    } catch (error) {
+      submitted.push(null);
+      submissions.push({ status: 'failed', error });
+    }
+  }
+  const confirmations = await Promise.all(
+    submitted.map((item) => {
+      if (!item) {
+        return null;
+      }
+      const { signature, ...options } = item;
+      return confirmTransaction(connection, signature, options);
+    }),
+  );
+  if (submissions.some((item) => item.status === 'failed')) {
+    throw new BatchSubmissionError(submissions, confirmations);
+  }
+  return confirmations as ConfirmationResult[];
+};
+
+export const serializeUnsigned = (tx: SignableTransaction) =>
+  tx instanceof VersionedTransaction
+    ? Buffer.from(tx.serialize())
+    : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+export const deserializeLike = <T extends SignableTransaction>(original: T, bytes: Uint8Array) =>
+  (original instanceof VersionedTransaction
+    ? VersionedTransaction.deserialize(bytes)
+    : Transaction.from(bytes)) as T;
@@ -0,0 +1,55 @@
+import type { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+
+import type { WalletKind } from '@/lib/wallet-store';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
+
+export type WalletAdapterEvents = {
+  connect: PublicKey;
+  disconnect: undefined;
+  error: Error;
+};
+
+export type WalletAdapterEvent = keyof WalletAdapterEvents;
+
+export type WalletAdapterListener<E extends WalletAdapterEvent> = (
+  payload: WalletAdapterEvents[E],
+) => void;
+
+export type WalletDisconnectResult = 'confirmed' | 'timeout' | 'local';
+
+// `action` labels a deeplink request on the return screen; other adapters ignore it.
+export type WalletRequestOptions = {
+  action?: string;
+};
+
+export type WalletAdapter = {
+  readonly kind: WalletKind;
+  readonly name: string;
+  readonly publicKey: PublicKey | null;
+  readonly connected: boolean;
+  readonly supportsVersionedTransactions: boolean;
+  connect: (options?: WalletRequestOptions) => Promise<void>;
+  disconnect: (options?: WalletRequestOptions) => Promise<WalletDisconnectResult>;
+  signTransaction: <T extends SignableTransaction>(
+    tx: T,
+    options?: WalletRequestOptions,
+  ) => Promise<T>;
+  signAllTransactions: <T extends SignableTransaction>(
+    txs: T[],
+    options?: WalletRequestOptions,
+  ) => Promise<T[]>;
+  signAndSend: (
+    tx: Transaction,
+    connection: Connection,
+    options?: WalletRequestOptions,
+  ) => Promise<string>;
+  signMessage: (message: Uint8Array, options?: WalletRequestOptions) => Promise<Uint8Array>;
+  on: <E extends WalletAdapterEvent>(event: E, listener: WalletAdapterListener<E>) => () => void;
+};
+
+export type AnchorWallet = {
+  publicKey: PublicKey;
+  signTransaction: WalletAdapter['signTransaction'];
+  signAllTransactions: WalletAdapter['signAllTransactions'];
+};
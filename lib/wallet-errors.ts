@@ -0,0 +1,171 @@
+import { decodeProgramError, describeProgramError } from '@/lib/program-errors';
+import { SimulationFailedError } from '@/lib/simulation';
+import {
+  SubmissionUnknownError,
+  TransactionConfirmationError,
+} from '@/lib/transaction-confirmation';
+
+export type WalletErrorCode = string | number | null;
+
+type WalletErrorClass = new (
+  wallet: string,
+  detail?: string,
+  code?: WalletErrorCode,
+) => WalletError;
+
+// What a screen shows after a failed send; `signature` is set when a transaction went out.
+export type TransactionFailure = {
+  message: string;
+  signature: string | null;
+  needsReconnect: boolean;
+};
+
+const withDetail = (summary: string, detail: string) =>
+  detail ? `${summary}: ${detail}` : `${summary}.`;
+
+export class WalletError extends Error {
+  readonly wallet: string;
+  readonly detail: string;
+  readonly code: WalletErrorCode;
+
+  constructor(wallet: string, message: string, detail = '', code: WalletErrorCode = null) {
+    super(message);
+    this.name = 'WalletError';
+    this.wallet = wallet;
+    this.detail = detail;
+    this.code = code;
+  }
+}
+
+export class UserRejectedError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, `Request cancelled in ${wallet}.`, detail, code);
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class UnauthorizedError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, withDetail(`${wallet} did not authorize the request`, detail), detail, code);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class SessionExpiredError extends UnauthorizedError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, detail, code);
+    this.name = 'SessionExpiredError';
+    this.message = `${wallet} session expired. Reconnect wallet.`;
+  }
+}
+
+export class InvalidParamsError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, withDetail(`${wallet} rejected the request parameters`, detail), detail, code);
+    this.name = 'InvalidParamsError';
+  }
+}
+
+export class DisconnectedError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, withDetail(`${wallet} is not connected`, detail), detail, code);
+    this.name = 'DisconnectedError';
+  }
+}
+
+export class InternalWalletError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, withDetail(`${wallet} failed`, detail), detail, code);
+    this.name = 'InternalWalletError';
+  }
+}
+
+export class TransactionRejectedError extends WalletError {
+  constructor(wallet: string, detail = '', code: WalletErrorCode = null) {
+    super(wallet, withDetail(`${wallet} rejected the transaction`, detail), detail, code);
+    this.name = 'TransactionRejectedError';
+  }
+}
+
+// Provider (EIP-1193 style) codes shared by Phantom, Solflare and Backpack, plus the
+// Mobile Wallet Adapter protocol and session codes.
+const ERROR_CODES: Record<string, WalletErrorClass> = {
+  userRejectedRequest: UserRejectedError,
+  '4001': UserRejectedError,
+  '4100': UnauthorizedError,
+  '4900': DisconnectedError,
+  '-32000': InvalidParamsError,
+  '-32002': InternalWalletError,
+  '-32003': TransactionRejectedError,
+  '-32601': InvalidParamsError,
+  '-32602': InvalidParamsError,
+  '-32603': InternalWalletError,
+  '-1': UnauthorizedError,
+  '-2': InvalidParamsError,
+  '-3': UserRejectedError,
+  '-4': TransactionRejectedError,
+  '-6': InvalidParamsError,
+  ERROR_SESSION_CLOSED: DisconnectedError,
+  ERROR_SESSION_TIMEOUT: DisconnectedError,
+};
+
+const SESSION_EXPIRED_PATTERN = /session.*(expired|invalid)|(expired|invalid).*session/i;
+const USER_REJECTED_PATTERN = /reject|cancel|denied|declined/i;
+const DISCONNECTED_PATTERN = /not connected|disconnected/i;
+
+export const walletErrorFromCode = (code: string | number, detail: string, wallet: string) => {
+  const ErrorClass = ERROR_CODES[String(code)] ?? InternalWalletError;
+  if (ErrorClass !== UserRejectedError && SESSION_EXPIRED_PATTERN.test(detail)) {
+    return new SessionExpiredError(wallet, detail, code);
+  }
+  return new ErrorClass(wallet, detail, code);
+};
+
+export const toWalletError = (err: unknown, wallet: string) => {
+  if (err instanceof WalletError) {
+    return err;
+  }
+  const code = (err as { code?: unknown } | null)?.code;
+  const detail = err instanceof Error ? err.message : typeof err === 'string' ? err : '';
+  if ((typeof code === 'string' || typeof code === 'number') && String(code) in ERROR_CODES) {
+    return walletErrorFromCode(code, detail, wallet);
+  }
+  if (SESSION_EXPIRED_PATTERN.test(detail)) {
+    return new SessionExpiredError(wallet, detail);
+  }
+  if (USER_REJECTED_PATTERN.test(detail)) {
+    return new UserRejectedError(wallet, detail);
+  }
+  if (DISCONNECTED_PATTERN.test(detail)) {
+    return new DisconnectedError(wallet, detail);
+  }
+  return new InternalWalletError(wallet, detail || 'Unknown error');
+};
+
+export const requiresReconnect = (err: unknown) =>
+  err instanceof UnauthorizedError || err instanceof DisconnectedError;
+
+export const describeTransactionFailure = (label: string, err: unknown): TransactionFailure => {
+  const failure = (message: string, signature: string | null = null) => ({
+    message,
+    signature,
+    needsReconnect: requiresReconnect(err),
+  });
+  if (err instanceof UserRejectedError) {
+    return failure(`${label} cancelled in ${err.wallet}.`);
+  }
+  if (err instanceof SimulationFailedError) {
+    return failure(`${label} blocked: ${err.message}`);
+  }
+  if (err instanceof TransactionConfirmationError) {
+    return failure(`${label} not confirmed: ${err.message}`, err.result.signature);
+  }
+  if (err instanceof SubmissionUnknownError) {
+    return failure(`${label} outcome unknown: ${err.message}`, err.signature);
+  }
+  const decoded = decodeProgramError(err);
+  if (decoded) {
+    return failure(`${label} failed: ${describeProgramError(decoded)}`);
+  }
+  return failure(err instanceof Error ? `${label} failed: ${err.message}` : `${label} failed.`);
+};
@@ -0,0 +1,58 @@
+import { Platform } from 'react-native';
+import { SolanaSignTransaction } from '@solana/wallet-standard-features';
+import { getWallets } from '@wallet-standard/app';
+import type { Wallet } from '@wallet-standard/base';
+import { StandardConnect } from '@wallet-standard/features';
+
+export type StandardWalletInfo = {
+  name: string;
+  icon: string;
+  wallet: Wallet;
+};
+
+type StandardWalletsListener = (next: StandardWalletInfo[]) => void;
+
+let standardWallets: StandardWalletInfo[] = [];
+let standardWalletListeners: StandardWalletsListener[] = [];
+
+const isSolanaWallet = (wallet: Wallet) =>
+  wallet.chains.some((chain) => chain.startsWith('solana:')) &&
+  StandardConnect in wallet.features &&
+  SolanaSignTransaction in wallet.features;
+
+const setStandardWallets = (wallets: readonly Wallet[]) => {
+  standardWallets = wallets
+    .filter(isSolanaWallet)
+    .map((wallet) => ({ name: wallet.name, icon: wallet.icon, wallet }));
+  standardWalletListeners.forEach((listener) => listener(standardWallets));
+};
+
+export const getStandardWallets = () => standardWallets;
+
+export const findStandardWallet = (name: string) =>
+  standardWallets.find((item) => item.name === name)?.wallet ?? null;
+
+export const subscribeStandardWallets = (listener: StandardWalletsListener) => {
+  standardWalletListeners = [...standardWalletListeners, listener];
+  return () => {
+    standardWalletListeners = standardWalletListeners.filter((item) => item !== listener);
+  };
+};
+
+export const startWalletStandardDiscovery = () => {
+  if (Platform.OS !== 'web') {
+    return () => {};
+  }
+
+  const wallets = getWallets();
+  const refresh = () => setStandardWallets(wallets.get());
+  refresh();
+
+  const offRegister = wallets.on('register', refresh);
+  const offUnregister = wallets.on('unregister', refresh);
+
+  return () => {
+    offRegister();
+    offUnregister();
+  };
+};
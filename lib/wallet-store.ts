@@ -1,22 +1,27 @@
 import type { Keypair } from '@solana/web3.js';
-import type { BoxKeyPair } from 'tweetnacl';
 
-type WalletKind = 'solflare' | 'phantom' | 'local';
+export type WalletKind =
+  'solflare' | 'phantom' | 'backpack' | 'local' | 'mwa' | `standard:${string}`;
 type WalletListener = (next: WalletKind) => void;
 type LocalWalletListener = (next: Keypair | null) => void;
 
+export type LocalAccount = {
+  id: string;
+  name: string;
+  keypair: Keypair;
+};
+type LocalAccountsListener = (next: LocalAccount[]) => void;
+
 let activeWallet: WalletKind = 'solflare';
 let walletListeners: WalletListener[] = [];
 
+let localAccounts: LocalAccount[] = [];
+let selectedLocalAccountId: string | null = null;
+let localAccountListeners: LocalAccountsListener[] = [];
+
 let localKeypair: Keypair | null = null;
 let localKeypairListeners: LocalWalletListener[] = [];
 
-let solflareBoxKeypair: BoxKeyPair | null = null;
-let solflareBoxListeners: Array<(next: BoxKeyPair | null) => void> = [];
-
-let phantomBoxKeypair: BoxKeyPair | null = null;
-let phantomBoxListeners: Array<(next: BoxKeyPair | null) => void> = [];
-
 export const getActiveWallet = () => activeWallet;
 
 export const setActiveWallet = (next: WalletKind) => {
@@ -33,11 +38,6 @@ export const subscribeActiveWallet = (listener: WalletListener) => {
 
 export const getLocalKeypair = () => localKeypair;
 
-export const setLocalKeypair = (next: Keypair | null) => {
-  localKeypair = next;
-  localKeypairListeners.forEach((listener) => listener(localKeypair));
-};
-
 export const subscribeLocalKeypair = (listener: LocalWalletListener) => {
   localKeypairListeners = [...localKeypairListeners, listener];
   return () => {
@@ -45,30 +45,68 @@ export const subscribeLocalKeypair = (listener: LocalWalletListener) => {
   };
 };
 
-export const getSolflareBoxKeypair = () => solflareBoxKeypair;
-
-export const setSolflareBoxKeypair = (next: BoxKeyPair | null) => {
-  solflareBoxKeypair = next;
-  solflareBoxListeners.forEach((listener) => listener(solflareBoxKeypair));
+const emitLocalAccounts = () => {
+  localAccountListeners.forEach((listener) => listener(localAccounts));
+  const selected = localAccounts.find((account) => account.id === selectedLocalAccountId);
+  const nextKeypair = selected?.keypair ?? null;
+  if (nextKeypair !== localKeypair) {
+    localKeypair = nextKeypair;
+    localKeypairListeners.forEach((listener) => listener(localKeypair));
+  }
 };
 
-export const subscribeSolflareBoxKeypair = (listener: (next: BoxKeyPair | null) => void) => {
-  solflareBoxListeners = [...solflareBoxListeners, listener];
+export const getLocalAccounts = () => localAccounts;
+
+export const getSelectedLocalAccountId = () => selectedLocalAccountId;
+
+export const subscribeLocalAccounts = (listener: LocalAccountsListener) => {
+  localAccountListeners = [...localAccountListeners, listener];
   return () => {
-    solflareBoxListeners = solflareBoxListeners.filter((item) => item !== listener);
+    localAccountListeners = localAccountListeners.filter((item) => item !== listener);
   };
 };
 
-export const getPhantomBoxKeypair = () => phantomBoxKeypair;
+export const setLocalAccounts = (next: LocalAccount[], selectedId: string | null) => {
+  localAccounts = next;
+  selectedLocalAccountId = next.some((account) => account.id === selectedId) ? selectedId : null;
+  emitLocalAccounts();
+};
 
-export const setPhantomBoxKeypair = (next: BoxKeyPair | null) => {
-  phantomBoxKeypair = next;
-  phantomBoxListeners.forEach((listener) => listener(phantomBoxKeypair));
+export const addLocalAccount = (keypair: Keypair, name?: string) => {
+  const id = keypair.publicKey.toBase58();
+  const existing = localAccounts.find((account) => account.id === id);
+  if (!existing) {
+    const label = name?.trim() || `Local ${localAccounts.length + 1}`;
+    localAccounts = [...localAccounts, { id, name: label, keypair }];
+  }
+  selectedLocalAccountId = id;
+  emitLocalAccounts();
+  return id;
 };
 
-export const subscribePhantomBoxKeypair = (listener: (next: BoxKeyPair | null) => void) => {
-  phantomBoxListeners = [...phantomBoxListeners, listener];
-  return () => {
-    phantomBoxListeners = phantomBoxListeners.filter((item) => item !== listener);
-  };
+export const renameLocalAccount = (id: string, name: string) => {
+  const label = name.trim();
+  if (!label) {
+    throw new Error('Account name cannot be empty.');
+  }
+  localAccounts = localAccounts.map((account) =>
+    account.id === id ? { ...account, name: label } : account,
+  );
+  emitLocalAccounts();
+};
+
+export const removeLocalAccount = (id: string) => {
+  localAccounts = localAccounts.filter((account) => account.id !== id);
+  if (selectedLocalAccountId === id) {
+    selectedLocalAccountId = localAccounts[0]?.id ?? null;
+  }
+  emitLocalAccounts();
+};
+
+export const selectLocalAccount = (id: string | null) => {
+  if (id !== null && !localAccounts.some((account) => account.id === id)) {
+    return;
+  }
+  selectedLocalAccountId = id;
+  emitLocalAccounts();
 };